@@ -0,0 +1,1255 @@
+/**
+ * 测试执行模块
+ * 提供可在其他Node.js程序中调用的audit()接口，命令行工具也通过它运行测试
+ */
+
+import { Browser } from '@playwright/test';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { extractWebVitals, WebVitalsMetrics, WebVitalsResult } from './webVitals';
+import { generateDetailedReport, generateTrendReport, generateSummaryReport, SummaryEntry } from './reportGenerator';
+import { generateComparisonReport, generateMultiComparisonReport, calculateScoreDiffs, calculateWebVitalsDiffs, ComparisonSamples } from './comparisonReporter';
+import { generateMatrixReport } from './matrixReporter';
+import { discoverUrls, DiscoveryConfig } from './discovery';
+import { runSetupScript, StorageState } from './setupScript';
+import { runUserFlow, FlowRunResult } from './userFlow';
+import { checkBudgets, extractResourceSizes, formatBudgetValue, getBudgetTypeName, BudgetConfig, BudgetResult } from './budgets';
+import { loadHistory, HistoryRecord } from './historyStore';
+import { loadBaseline, checkRegressions, getMedianWebVitals, formatRegressionValue, formatTolerance, ToleranceConfig, RegressionResult } from './regression';
+import { computeRunStats, confidenceInterval, selectRepresentativeRun, ConfidenceInterval, RunStats } from './statistics';
+import { mergeConfig, validateConfig } from './config';
+import { resolveDevice, getLighthouseEmulation, getContextOptions, DeviceConfig, DeviceProfile } from './devices';
+import { resolveThrottling, getLighthouseThrottling, DEFAULT_THROTTLING_PRESET, ThrottlingConfig, ThrottlingMethod, ThrottlingProfile } from './throttling';
+import { applyLighthouseSettings, loadLighthouseConfig, LighthouseSettings } from './lighthouseSettings';
+import { applyRequestSettings, getLighthouseRequestSettings, getRecordedRequestSettings, maskHeaders, setChromeCookies, CookieConfig, RequestSettings } from './requestSettings';
+import { getThirdPartyPatterns, ThirdPartyConfig, ThirdPartyImpact } from './thirdParty';
+import { startStaticServer, ServeConfig } from './staticServer';
+import { formatHostMap, getHostResolverArgs, HostMap } from './hostMap';
+import { launchChrome, launchPlaywrightBrowser, ChromeConfig, ChromeInstance } from './chrome';
+import { LogLevel, Logger, PoolProgressBar, formatScore, formatWebVital } from './cli';
+import { createForkedRunner, createInProcessRunner, runPool, LighthouseRunner } from './lighthouseRunner';
+
+// Lighthouse测试选项，配置中的lighthouse部分合并在其中
+export interface LighthouseOptions extends LighthouseSettings {
+  logLevel: string;
+  output: string;
+  onlyCategories: string[];
+  port: number;
+  formFactor: string;
+  screenEmulation: {
+    mobile: boolean;
+    width: number;
+    height: number;
+    deviceScaleFactor: number;
+    disabled: boolean;
+  };
+  emulatedUserAgent: string;
+  throttlingMethod: ThrottlingMethod;
+  throttling: {
+    rttMs: number;
+    throughputKbps: number;
+    requestLatencyMs: number;
+    downloadThroughputKbps: number;
+    uploadThroughputKbps: number;
+    cpuSlowdownMultiplier: number;
+  };
+}
+
+// 单个URL的测试配置，可覆盖全局的测试次数、设备和分类
+export interface UrlConfig {
+  url: string;
+  testCount?: number;
+  device?: DeviceConfig;
+  categories?: string[];
+}
+
+// 测试配置
+export interface TestConfig {
+  url: string; // 测试静态文件目录时可以是相对路径，默认为服务器首页
+  urls?: Array<string | UrlConfig>; // 批量测试的URL列表
+  serve?: string | ServeConfig; // 测试期间在本地提供的静态文件目录，相对路径的URL指向该服务器
+  testCount: number;
+  categories: string[];
+  device?: DeviceConfig; // Desktop、Mobile、Playwright设备名称或自定义设备
+  throttling?: ThrottlingConfig; // 节流预设名称或自定义节流参数
+  throttlingMethod?: ThrottlingMethod; // 节流方式，默认为simulate
+  matrix?: MatrixConfig; // 在多种设备和网络条件的组合下测试每个URL
+  headers?: Record<string, string>; // 每个请求附加的HTTP头
+  cookies?: CookieConfig[]; // 测试前设置的Cookie
+  blockedUrlPatterns?: string[]; // 屏蔽匹配这些模式的请求
+  hostMap?: HostMap; // 主机名到IP地址的映射，无需修改DNS即可测试新的后端
+  chrome?: ChromeConfig; // Chrome可执行文件、附加的启动参数或已运行Chrome的远程调试地址
+  lighthouse?: LighthouseSettings; // 深度合并到Lighthouse设置中的选项
+  discover?: DiscoveryConfig; // 自动发现待测试页面
+  setupScript?: string; // 测试前执行的Playwright脚本（如登录）
+  flows?: string[]; // 用户流程脚本，配置后以用户流程模式运行
+  concurrency?: number; // 并行运行的Chrome实例数量
+  adaptive?: boolean | AdaptiveConfig; // 根据测量稳定性自动决定测试次数
+  budgets?: BudgetConfig; // 性能预算，超出时以非零状态码退出
+  baseline?: string; // 回归检查的基准结果：历史数据文件路径或latest
+  tolerances?: ToleranceConfig; // 回归检查中各指标允许的退化幅度
+  compareUrl?: string | string[]; // 用于对比的URL，多个URL时生成排行榜
+  thirdParty?: ThirdPartyConfig; // 第三方域名分组，配置后每个URL还会在屏蔽每组域名的情况下测试并与正常加载对比
+  saveHistory?: boolean; // 是否保存历史数据用于趋势分析
+  outputDir?: string; // 报告输出目录，默认为项目下的reports目录
+}
+
+// 矩阵测试配置，每个URL在设备和网络条件的每种组合下各测试一次
+export interface MatrixConfig {
+  devices?: DeviceConfig[]; // 设置后忽略device
+  throttling?: string[]; // 节流预设名称，设置后忽略throttling
+}
+
+// 解析后的单个测试目标
+interface TestTarget {
+  url: string;
+  testCount: number;
+  device: string; // 设备名称
+  deviceProfile: DeviceProfile;
+  throttling: ThrottlingProfile;
+  label?: string; // 矩阵测试中区分同一URL不同测试条件的标识
+  categories: string[];
+  blockedUrlPatterns?: string[]; // 在配置的屏蔽规则之外额外屏蔽的请求
+  thirdPartyGroup?: string; // 第三方影响测试中屏蔽的域名分组
+}
+
+// 报告输出目录
+export interface OutputDirs {
+  outputDir: string;
+  accessibilityDir: string;
+  webVitalsDir: string;
+  historyDir: string;
+  baselinesFile: string; // baseline命令设置的基准结果
+}
+
+// 单个URL的测试上下文
+interface AuditContext {
+  config: TestConfig;
+  browser: Browser;
+  dirs: OutputDirs;
+  logger: Logger;
+  batch: boolean;
+  storageState?: StorageState; // 前置脚本留下的登录状态
+}
+
+// 单次Lighthouse测试任务
+interface RunJob {
+  target: TestTarget;
+  run: number; // 第几次测试，从1开始
+}
+
+// 单次Lighthouse测试结果
+export interface RunResult {
+  run: number;
+  scores: Record<string, number>;
+  webVitals: WebVitalsResult;
+  accessibilityIssues: AccessibilityIssue[];
+  resourceSizes: Record<string, number>; // 各类资源的传输大小（字节）
+  reportPath: string;
+  options: LighthouseOptions;
+  lighthouseVersion: string;
+}
+
+// 自适应测试配置
+export interface AdaptiveConfig {
+  minRuns?: number; // 最少测试次数
+  maxRuns?: number; // 最多测试次数
+  metric?: string; // 判断稳定性的指标：分类名（如performance）或Web Vitals指标（如LCP）
+  ciWidth?: number; // 目标95%置信区间宽度，单位与指标相同
+}
+
+// 自适应测试的稳定性结果
+export interface StabilityResult {
+  metric: string;
+  runs: number;
+  targetWidth: number;
+  interval: ConfidenceInterval | null;
+  stable: boolean;
+}
+
+// 可访问性问题
+export interface AccessibilityIssue {
+  id: string;
+  title: string;
+  description: string;
+  score: number | null;
+  details?: any;
+  displayValue: string;
+}
+
+// 单个URL的测试结果，测试失败时只有error
+export interface UrlAuditResult {
+  url: string;
+  device: string;
+  throttling: string; // 节流预设名称
+  testResult?: TestResult; // 汇总后的得分、Web Vitals和检查结果
+  runs: RunResult[]; // 每次测试的得分、Web Vitals和可访问性问题
+  detailedReportPath?: string;
+  error?: string;
+  baselineError?: string; // 指定了基准结果但无法进行回归检查的原因
+}
+
+// audit()的返回结果
+export interface AuditResult {
+  outputDir: string;
+  urls: UrlAuditResult[];
+  compared: UrlAuditResult[]; // 对比URL的测试结果
+  flows: FlowRunResult[]; // 用户流程模式的测试结果
+  summaryReportPath?: string;
+  comparisonReportPath?: string;
+  matrixReportPath?: string;
+  thirdParty: ThirdPartyImpact[]; // 第三方影响测试的结果
+  failures: string[]; // 测试失败、未通过预算或出现退化的原因，为空表示全部通过
+}
+
+// 测试过程中的进度显示
+export type AuditProgress = Pick<PoolProgressBar, 'extend' | 'start' | 'finish' | 'complete'>;
+
+// audit()的运行选项
+export interface AuditOptions {
+  logger?: Logger; // 默认不输出日志
+  progress?: (total: number, workerCount: number) => AuditProgress; // 默认不显示进度
+}
+
+// audit()接受的配置，未指定的字段使用默认值
+export type AuditConfig = Partial<TestConfig>;
+
+// 默认测试配置
+export const DEFAULT_CONFIG: TestConfig = {
+  url: 'https://playwright.dev',
+  testCount: 5,
+  categories: ['performance', 'accessibility', 'best-practices', 'seo'],
+  device: 'Desktop',
+  // 设置网络节流配置
+  throttling: DEFAULT_THROTTLING_PRESET,
+  saveHistory: true
+};
+
+/**
+ * 为未指定的字段填入默认值，得到完整的测试配置
+ */
+export function resolveConfig(input: AuditConfig): TestConfig {
+  // 值为undefined的字段和节流参数等嵌套对象中未设置的字段使用默认值，测试静态文件目录时默认测试服务器首页
+  return mergeConfig(input.serve ? { ...DEFAULT_CONFIG, url: '/' } : DEFAULT_CONFIG, input);
+}
+
+/**
+ * 运行Lighthouse测试并返回结果
+ * 不修改进程状态，日志和进度通过options注入；测试失败、未通过预算或出现退化时记录在failures中
+ * 配置不符合config.schema.json时直接抛出错误
+ */
+export async function audit(input: AuditConfig = {}, options: AuditOptions = {}): Promise<AuditResult> {
+  const config = resolveConfig(input);
+  validateConfig(config);
+  // 在启动浏览器之前加载一次自定义的Lighthouse配置文件，尽早发现路径或语法错误
+  loadLighthouseConfig(applyLighthouseSettings({}, config.lighthouse));
+  const logger = options.logger || new Logger(LogLevel.SILENT);
+  
+  if (!config.serve) {
+    return runAudit(config, logger, options);
+  }
+  
+  // 在本地提供静态文件目录，所有测试完成后关闭服务器
+  const server = await startStaticServer(config.serve);
+  logger.info(`静态文件服务器已启动: ${server.url}（${server.root}）`);
+  try {
+    return await runAudit(resolveServedUrls(config, server.url), logger, options);
+  } finally {
+    await server.close();
+  }
+}
+
+// 启动Chrome实例和Playwright浏览器，运行所有测试
+async function runAudit(config: TestConfig, logger: Logger, options: AuditOptions): Promise<AuditResult> {
+  const dirs = await prepareOutputDirs(config.outputDir);
+  const failures: string[] = [];
+  
+  const chromeConfig = config.chrome || {};
+  // Lighthouse使用的Chrome和截图使用的Playwright浏览器按相同的主机映射解析域名
+  const hostMap = getAppliedHostMap(config);
+  const hostResolverArgs = getHostResolverArgs(hostMap);
+  if (hostMap) {
+    logger.info(`主机映射: ${formatHostMap(hostMap).join(', ')}`);
+  }
+  
+  // 启动Chrome浏览器，连接已运行的Chrome时只有一个实例
+  let concurrency = Math.max(1, Math.floor(config.concurrency || 1));
+  if (chromeConfig.cdpUrl) {
+    logger.info(`连接已运行的Chrome: ${chromeConfig.cdpUrl}`);
+    if (concurrency > 1) {
+      logger.warning('连接已运行的Chrome时不支持并行测试，将依次运行所有测试。');
+      concurrency = 1;
+    }
+    if ((config.hostMap && Object.keys(config.hostMap).length > 0) || chromeConfig.flags || chromeConfig.executablePath) {
+      logger.warning('连接已运行的Chrome时不会应用hostMap、chrome.flags和chrome.executablePath，请在启动该Chrome时设置。');
+    }
+  } else {
+    logger.info(concurrency > 1 ? `启动 ${concurrency} 个独立的Chrome实例...` : '启动Chrome浏览器...');
+  }
+  
+  if (concurrency > 1) {
+    logger.warning('并行测试时多个Chrome实例会争用CPU、内存和网络带宽，性能得分和Web Vitals指标可能偏低且波动更大。');
+    logger.warning('如需可靠的性能基准数据，请使用 --concurrency 1 运行。');
+    if (concurrency > os.cpus().length) {
+      logger.warning(`并发数 ${concurrency} 超过了CPU核心数 ${os.cpus().length}，测试结果的偏差会更明显。`);
+    }
+  }
+  
+  // 每个Chrome实例使用独立的用户数据目录，彼此隔离（所有URL共用这组实例）
+  const chromes: ChromeInstance[] = [];
+  for (let i = 0; i < concurrency; i++) {
+    chromes.push(await launchChrome(chromeConfig, hostResolverArgs));
+  }
+  
+  // 并行时每个Chrome实例由独立的Lighthouse子进程驱动
+  const runners = chromes.map(chrome => concurrency > 1
+    ? createForkedRunner(chrome.port, chrome.hostname)
+    : createInProcessRunner(chrome.port, chrome.hostname));
+  
+  // Playwright浏览器用于页面截图和链接爬取，同样在所有URL之间共用，与Lighthouse使用相同的Chrome
+  const browser = await launchPlaywrightBrowser(chromeConfig, hostResolverArgs);
+  
+  try {
+    // 执行前置脚本，登录状态保存在Lighthouse使用的每个Chrome实例中
+    let storageState: StorageState | undefined;
+    if (config.setupScript) {
+      for (const chrome of chromes) {
+        storageState = await runSetupScript(config.setupScript, chrome.cdpUrl, {
+          url: getEntryUrl(config),
+          logger
+        });
+      }
+    }
+    
+    // 用户流程模式：按流程脚本中的步骤测试，不再执行单页测试
+    if (config.flows && config.flows.length > 0) {
+      await applyChromeCookies(chromes.slice(0, 1), config, [getEntryUrl(config)]);
+      const flows = await runFlows(config, dirs, chromes[0], logger, failures);
+      return { outputDir: dirs.outputDir, urls: [], compared: [], flows, thirdParty: [], failures };
+    }
+    
+    // 通过sitemap或链接爬取发现待测试页面
+    const discoveredUrls = config.discover ? await discoverUrls(config.discover, browser, logger, storageState, config) : [];
+    
+    const targets = resolveTargets(config, discoveredUrls);
+    const batch = targets.length > 1 || !!config.discover || !!config.matrix;
+    
+    if (targets.length === 0) {
+      throw new Error('没有可测试的URL');
+    }
+    
+    if (batch) {
+      logger.info(`将批量测试 ${targets.length} 个URL...`);
+    } else {
+      logger.info(`将对 ${targets[0].url} 进行 ${targets[0].testCount} 次测试并计算平均值...`);
+    }
+    
+    const context: AuditContext = { config, browser, dirs, logger, batch, storageState };
+    
+    // 对比模式：对比URL与第一个URL使用相同的设置，测试次数相同并交替运行，抵消测试期间网络和机器状态的漂移
+    const compareTargets: TestTarget[] = ([] as string[]).concat(config.compareUrl || [])
+      .map(url => ({ ...targets[0], url }));
+    // 对比URL的文件名带URL标识以免与第一个URL冲突，且不参与预算和回归检查
+    const compareContext: AuditContext = { ...context, batch: true, config: { ...config, budgets: undefined, baseline: undefined } };
+    if (compareTargets.length > 0) {
+      logger.info(`将与 ${compareTargets.map(target => target.url).join(', ')} 轮流测试进行对比`);
+    }
+    
+    await applyChromeCookies(chromes, config, [...targets, ...compareTargets].map(target => target.url));
+    
+    // 第三方影响测试：每个测试目标在屏蔽每组第三方域名的情况下各测试相同次数，与正常加载交替运行
+    const thirdPartyGroups = Object.entries(config.thirdParty || {});
+    const thirdPartyTargets = new Map<TestTarget, TestTarget[]>(targets.map(target => [
+      target,
+      thirdPartyGroups.map(([group, domains]) => ({
+        ...target,
+        label: target.label ? `${target.label} no-${group}` : `no-${group}`,
+        blockedUrlPatterns: getThirdPartyPatterns(domains),
+        thirdPartyGroup: group
+      }))
+    ]));
+    // 屏蔽后的结果只用于对比，不参与预算和回归检查，也不保存历史数据
+    const thirdPartyContext: AuditContext = { ...context, batch: true, config: { ...config, budgets: undefined, baseline: undefined, saveHistory: false } };
+    if (thirdPartyGroups.length > 0) {
+      logger.info(`将分别屏蔽第三方域名组 ${thirdPartyGroups.map(([group]) => group).join(', ')} 测试，与正常加载对比`);
+    }
+    
+    // 在第一个URL的每次测试之后依次插入每个对比URL的一次测试，在每个测试目标的每次测试之后插入屏蔽每组第三方域名的一次测试
+    const withPairedJobs = (roundJobs: RunJob[]) => roundJobs.flatMap(job => [
+      job,
+      ...(job.target === targets[0] ? compareTargets : []).map(target => ({ target, run: job.run })),
+      ...(thirdPartyTargets.get(job.target) || []).map(target => ({ target, run: job.run }))
+    ]);
+    
+    // 将每个URL的每次测试拆分为独立任务，分配给各个Chrome实例
+    const jobs: RunJob[] = [];
+    const settled: PromiseSettledResult<RunResult>[] = [];
+    const progressBar = options.progress ? options.progress(0, runners.length) : null;
+    
+    const runJobs = async (roundJobs: RunJob[]) => {
+      roundJobs = withPairedJobs(roundJobs);
+      progressBar?.extend(roundJobs.length);
+      const roundResults = await runPool(roundJobs, runners, async (job, runner, workerIndex) => {
+        const jobContext = compareTargets.includes(job.target) ? compareContext : job.target.thirdPartyGroup ? thirdPartyContext : context;
+        progressBar?.start(workerIndex, `${jobContext.batch ? `${getTargetSlug(job.target)} ` : ''}#${job.run}`);
+        try {
+          return await runLighthousePass(job, runner, jobContext);
+        } finally {
+          progressBar?.finish(workerIndex);
+        }
+      });
+      jobs.push(...roundJobs);
+      settled.push(...roundResults);
+    };
+    
+    // 收集某个URL目前为止的测试结果
+    const collectResults = (target: TestTarget) => {
+      const runResults: RunResult[] = [];
+      const errors: unknown[] = [];
+      jobs.forEach((job, jobIndex) => {
+        if (job.target !== target) return;
+        const result = settled[jobIndex];
+        if (result.status === 'fulfilled') {
+          runResults.push(result.value);
+        } else {
+          errors.push(result.reason);
+        }
+      });
+      return { runResults, errors, attempts: runResults.length + errors.length };
+    };
+    
+    const adaptive = resolveAdaptiveConfig(config);
+    
+    // 首轮测试：固定模式按testCount，自适应模式按minRuns
+    await runJobs(targets.flatMap(target => createRunJobs(target, 1, adaptive ? adaptive.minRuns : target.testCount)));
+    
+    // 自适应模式：对置信区间仍过宽的URL继续追加测试，直到稳定或达到maxRuns
+    const stability = new Map<TestTarget, StabilityResult>();
+    if (adaptive) {
+      let pending = targets;
+      while (pending.length > 0) {
+        const nextRound: RunJob[] = [];
+        
+        for (const target of pending) {
+          const { runResults, attempts } = collectResults(target);
+          const result = evaluateStability(runResults, adaptive);
+          stability.set(target, result);
+          
+          if (!result.stable && attempts < adaptive.maxRuns) {
+            // 待追加的URL较少时一次追加多次测试，充分利用空闲的Chrome实例
+            const count = Math.min(adaptive.maxRuns - attempts, Math.max(1, Math.floor(runners.length / pending.length)));
+            nextRound.push(...createRunJobs(target, attempts + 1, count));
+          }
+        }
+        
+        pending = Array.from(new Set(nextRound.map(job => job.target)));
+        if (nextRound.length > 0) {
+          logger.debug(`自适应测试: ${pending.length} 个URL尚未稳定，追加 ${nextRound.length} 次测试`);
+          await runJobs(nextRound);
+        }
+      }
+    }
+    
+    progressBar?.complete('所有测试完成!');
+    
+    const summaryEntries: SummaryEntry[] = [];
+    const urls: UrlAuditResult[] = [];
+    
+    for (const [index, target] of targets.entries()) {
+      if (batch) {
+        logger.title(`[${index + 1}/${targets.length}] ${target.url}${target.label ? ` (${target.label})` : ''}`);
+      }
+      
+      try {
+        // 收集该URL成功的测试结果
+        const { runResults, errors } = collectResults(target);
+        
+        if (runResults.length === 0) {
+          throw errors[0];
+        }
+        if (errors.length > 0) {
+          logger.warning(`${target.url} 有 ${errors.length} 次测试失败，仅使用成功的 ${runResults.length} 次结果`);
+        }
+        
+        const urlResult = await finalizeTarget(target, runResults, context, stability.get(target));
+        urls.push(urlResult);
+        summaryEntries.push({
+          ...urlResult.testResult!,
+          reportPath: urlResult.detailedReportPath
+        });
+      } catch (error) {
+        // 批量模式下单个URL失败不影响其余URL
+        if (!batch) throw error;
+        logger.error(`测试 ${target.url} 失败:`, error as Error);
+        const message = error instanceof Error ? error.message : String(error);
+        urls.push({
+          url: target.url,
+          device: target.device,
+          throttling: target.throttling.name,
+          runs: collectResults(target).runResults,
+          error: message
+        });
+        summaryEntries.push({
+          url: target.url,
+          device: target.device,
+          throttling: target.throttling.name,
+          timestamp: new Date().toISOString(),
+          scores: {},
+          webVitals: null,
+          error: message
+        });
+      }
+    }
+    
+    // 生成批量测试汇总报告
+    let summaryReportPath: string | undefined;
+    if (batch) {
+      summaryReportPath = await generateSummaryReport(summaryEntries, dirs.outputDir, {
+        groupByPath: !!config.discover,
+        hostMap
+      });
+      logger.success(`汇总报告已生成: ${summaryReportPath}`);
+    }
+    
+    // 矩阵测试：对比同一URL在不同设备和网络条件下各指标的变化
+    let matrixReportPath: string | undefined;
+    if (config.matrix) {
+      matrixReportPath = await generateMatrixReport(summaryEntries, dirs.outputDir);
+      logger.success(`矩阵报告已生成: ${matrixReportPath}`);
+    }
+    
+    // 汇总对比URL的测试结果，对每个指标做显著性检验后生成对比报告
+    const baseResult = urls.find(result => result.url === targets[0].url && result.testResult);
+    const compared: UrlAuditResult[] = [];
+    let comparisonReportPath: string | undefined;
+    if (compareTargets.length > 0 && baseResult) {
+      // 对比报告中的Web Vitals使用中位数，与显著性检验的样本保持一致
+      const compareResults = [{ ...baseResult.testResult!, webVitals: getMedianWebVitals(baseResult.testResult!) }];
+      const compareSamples = [getComparisonSamples(collectResults(targets[0]).runResults)];
+      
+      for (const compareTarget of compareTargets) {
+        logger.title(`对比测试: ${compareTarget.url}`);
+        try {
+          const { runResults, errors } = collectResults(compareTarget);
+          if (runResults.length === 0) {
+            throw errors[0];
+          }
+          
+          const compareResult = await finalizeTarget(compareTarget, runResults, compareContext);
+          compared.push(compareResult);
+          compareResults.push({ ...compareResult.testResult!, webVitals: getMedianWebVitals(compareResult.testResult!) });
+          compareSamples.push(getComparisonSamples(runResults));
+        } catch (error) {
+          // 单个对比URL失败时，其余网站仍然生成对比报告
+          logger.error(`对比测试 ${compareTarget.url} 失败:`, error as Error);
+          failures.push(`对比测试 ${compareTarget.url} 失败`);
+          compared.push({
+            url: compareTarget.url,
+            device: compareTarget.device,
+            throttling: compareTarget.throttling.name,
+            runs: collectResults(compareTarget).runResults,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+      
+      if (compareResults.length > 1) {
+        comparisonReportPath = await generateMultiComparisonReport(compareResults, dirs.outputDir, compareSamples);
+        logger.success(`${compareResults.length > 2 ? '排行榜' : '对比'}报告已生成: ${comparisonReportPath}`);
+      }
+    }
+    
+    // 汇总第三方影响测试的结果，对比每个测试目标正常加载和屏蔽各组第三方域名后的得分和Web Vitals
+    const thirdParty: ThirdPartyImpact[] = [];
+    for (const [index, target] of targets.entries()) {
+      const normalResult = urls[index].testResult;
+      const variants = thirdPartyTargets.get(target) || [];
+      if (!normalResult || variants.length === 0) continue;
+      
+      // 与对比模式相同，得分和Web Vitals使用中位数，并对每个指标做显著性检验
+      const normal = { ...normalResult, webVitals: getMedianWebVitals(normalResult) };
+      const normalSamples = getComparisonSamples(collectResults(target).runResults);
+      
+      for (const variant of variants) {
+        const group = variant.thirdPartyGroup!;
+        logger.title(`第三方影响测试: ${target.url}${target.label ? ` (${target.label})` : ''} 屏蔽 ${group}`);
+        try {
+          const { runResults, errors } = collectResults(variant);
+          if (runResults.length === 0) {
+            throw errors[0];
+          }
+          
+          const blockedResult = (await finalizeTarget(variant, runResults, thirdPartyContext)).testResult!;
+          const blocked = { ...blockedResult, webVitals: getMedianWebVitals(blockedResult) };
+          const reportPath = await generateComparisonReport(normal, blocked, dirs.outputDir, {
+            baseline: normalSamples,
+            current: getComparisonSamples(runResults)
+          }, { title: '第三方影响报告', baseline: '正常加载', current: `屏蔽 ${group}` });
+          
+          const impact: ThirdPartyImpact = {
+            url: target.url,
+            device: target.device,
+            throttling: target.throttling.name,
+            group,
+            domains: config.thirdParty![group],
+            scoreDiffs: calculateScoreDiffs(normal.scores, blocked.scores),
+            webVitalsDiffs: calculateWebVitalsDiffs(normal.webVitals, blocked.webVitals),
+            reportPath
+          };
+          thirdParty.push(impact);
+          logThirdPartyImpact(impact, logger);
+          logger.success(`第三方影响报告已生成: ${reportPath}`);
+        } catch (error) {
+          // 单组第三方域名的测试失败不影响其余分组
+          logger.error(`第三方影响测试 ${target.url} 屏蔽 ${group} 失败:`, error as Error);
+          failures.push(`第三方影响测试 ${target.url} 屏蔽 ${group} 失败`);
+        }
+      }
+    }
+    
+    logger.title('测试完成');
+    logger.info(`所有报告已保存至: ${dirs.outputDir}`);
+    
+    // 记录测试失败、未通过性能预算或出现性能退化的URL，CLI据此以非零状态码退出
+    const failedUrls = urls.filter(result => result.error).length;
+    const overBudgetUrls = urls.filter(result =>
+      result.testResult?.budgetResults && result.testResult.budgetResults.some(budget => !budget.passed)
+    ).length;
+    const regressedUrls = urls.filter(result =>
+      result.testResult?.regressionResults && result.testResult.regressionResults.some(regression => regression.regressed)
+    ).length;
+    
+    if (failedUrls > 0) {
+      failures.push(`${failedUrls} 个URL测试失败`);
+    }
+    if (overBudgetUrls > 0) {
+      failures.push(`${overBudgetUrls} 个URL未通过性能预算`);
+    }
+    if (regressedUrls > 0) {
+      failures.push(`${regressedUrls} 个URL相对基准结果出现性能退化`);
+    }
+    for (const result of urls) {
+      if (result.baselineError) failures.push(result.baselineError);
+    }
+    
+    return { outputDir: dirs.outputDir, urls, compared, flows: [], summaryReportPath, comparisonReportPath, matrixReportPath, thirdParty, failures };
+  } finally {
+    // 关闭浏览器和Lighthouse子进程
+    await browser.close();
+    for (const runner of runners) {
+      await runner.close();
+    }
+    for (const chrome of chromes) {
+      await chrome.close();
+    }
+  }
+}
+
+// 生成某个URL从第start次开始的count次测试任务
+function createRunJobs(target: TestTarget, start: number, count: number): RunJob[] {
+  return Array.from({ length: count }, (_, index) => ({ target, run: start + index }));
+}
+
+// 整理多次测试中每个指标的原始测量值，用于对比时的显著性检验
+function getComparisonSamples(runResults: RunResult[]): ComparisonSamples {
+  const samples: ComparisonSamples = { scores: {}, webVitals: {} };
+  for (const result of runResults) {
+    for (const [category, score] of Object.entries(result.scores)) {
+      (samples.scores[category] = samples.scores[category] || []).push(score);
+    }
+    for (const key of Object.keys(result.webVitals.metrics) as Array<keyof WebVitalsMetrics>) {
+      const value = result.webVitals.metrics[key];
+      if (value === null) continue;
+      (samples.webVitals[key] = samples.webVitals[key] || []).push(value);
+    }
+  }
+  return samples;
+}
+
+// 解析自适应测试配置，未启用时返回null
+function resolveAdaptiveConfig(config: TestConfig): Required<AdaptiveConfig> | null {
+  if (!config.adaptive) return null;
+  
+  const adaptive = config.adaptive === true ? {} : config.adaptive;
+  const metric = adaptive.metric || 'performance';
+  const minRuns = Math.max(2, adaptive.minRuns || 3);
+  
+  return {
+    metric,
+    minRuns,
+    maxRuns: Math.max(minRuns, adaptive.maxRuns || 10),
+    ciWidth: adaptive.ciWidth || getDefaultCiWidth(metric)
+  };
+}
+
+// 各指标默认的目标置信区间宽度
+function getDefaultCiWidth(metric: string): number {
+  if (metric === 'CLS') return 0.02;
+  if (['FCP', 'LCP', 'FID', 'TTI', 'TBT', 'TTFB'].includes(metric)) return 250;
+  return 5; // Lighthouse分类得分
+}
+
+// 根据目标指标的95%置信区间判断测试结果是否已稳定
+function evaluateStability(runResults: RunResult[], adaptive: Required<AdaptiveConfig>): StabilityResult {
+  const values = runResults
+    .map(result => adaptive.metric in result.scores ? result.scores[adaptive.metric] : result.webVitals.metrics[adaptive.metric as keyof WebVitalsMetrics])
+    .filter(value => value !== undefined && value !== null);
+  const interval = confidenceInterval(values);
+  
+  return {
+    metric: adaptive.metric,
+    runs: runResults.length,
+    targetWidth: adaptive.ciWidth,
+    interval,
+    stable: interval !== null && interval.width <= adaptive.ciWidth
+  };
+}
+
+// 在Lighthouse使用的每个Chrome实例中设置配置的Cookie，未指定域名的Cookie设置在每个被测URL上
+async function applyChromeCookies(chromes: ChromeInstance[], config: TestConfig, urls: string[]): Promise<void> {
+  if (!config.cookies || config.cookies.length === 0) return;
+  for (const chrome of chromes) {
+    await setChromeCookies(chrome.cdpUrl, config.cookies, urls);
+  }
+}
+
+// 依次运行所有用户流程脚本
+async function runFlows(config: TestConfig, dirs: OutputDirs, chrome: ChromeInstance, logger: Logger, failures: string[]): Promise<FlowRunResult[]> {
+  const { outputDir, webVitalsDir } = dirs;
+  const deviceProfile = resolveDevice(config.device);
+  const device = deviceProfile.name;
+  const throttling = resolveThrottling(config.throttling, config.throttlingMethod);
+  const flags = buildLighthouseOptions({ deviceProfile, throttling, categories: config.categories }, config, chrome.port, logger);
+  const results: FlowRunResult[] = [];
+  
+  for (const flowPath of config.flows || []) {
+    try {
+      results.push(await runUserFlow(flowPath, { cdpUrl: chrome.cdpUrl, device, flags, outputDir, webVitalsDir, logger }));
+    } catch (error) {
+      logger.error(`用户流程 ${flowPath} 执行失败:`, error as Error);
+      failures.push(`用户流程 ${flowPath} 执行失败`);
+    }
+  }
+  
+  logger.title('用户流程测试完成');
+  logger.info(`所有报告已保存至: ${outputDir}`);
+  return results;
+}
+
+// 将配置中的URL列表和自动发现的页面解析为测试目标，两者都为空时使用单个url
+function resolveTargets(config: TestConfig, discoveredUrls: string[]): TestTarget[] {
+  const entries: Array<string | UrlConfig> = [...(config.urls || []), ...discoveredUrls];
+  if (entries.length === 0 && !config.discover) {
+    entries.push(config.url);
+  }
+  
+  const targets: TestTarget[] = [];
+  const seen = new Set<string>();
+  
+  for (const entry of entries) {
+    const urlConfig: UrlConfig = typeof entry === 'string' ? { url: entry } : entry;
+    // 显式配置的URL优先，自动发现的重复页面会被忽略
+    if (seen.has(urlConfig.url)) continue;
+    seen.add(urlConfig.url);
+    
+    // 矩阵测试时设备和网络条件的每种组合各为一个测试目标，标识中只包含矩阵中的维度
+    const matrix = config.matrix || {};
+    const devices = matrix.devices || [urlConfig.device || config.device];
+    const throttlings: Array<ThrottlingConfig | undefined> = matrix.throttling || [config.throttling];
+    for (const device of devices) {
+      const deviceProfile = resolveDevice(device);
+      // provided方式下所有网络条件都解析为不节流，只测试一次
+      const throttlingNames = new Set<string>();
+      for (const throttlingConfig of throttlings) {
+        const throttling = resolveThrottling(throttlingConfig, config.throttlingMethod);
+        if (throttlingNames.has(throttling.name)) continue;
+        throttlingNames.add(throttling.name);
+        const dimensions = [
+          ...(matrix.devices ? [deviceProfile.name] : []),
+          ...(matrix.throttling ? [throttling.name] : [])
+        ];
+        targets.push({
+          url: urlConfig.url,
+          testCount: urlConfig.testCount || config.testCount,
+          device: deviceProfile.name,
+          deviceProfile,
+          throttling,
+          label: dimensions.length > 0 ? dimensions.join(' ') : undefined,
+          categories: urlConfig.categories || config.categories
+        });
+      }
+    }
+  }
+  
+  return targets;
+}
+
+// 将配置中相对路径的URL解析为静态文件服务器上的地址，完整的URL保持不变
+function resolveServedUrls(config: TestConfig, origin: string): TestConfig {
+  const resolve = (url: string) => new URL(url, origin).href;
+  return {
+    ...config,
+    url: resolve(config.url),
+    urls: config.urls && config.urls.map(entry => typeof entry === 'string' ? resolve(entry) : { ...entry, url: resolve(entry.url) }),
+    compareUrl: config.compareUrl && (Array.isArray(config.compareUrl) ? config.compareUrl.map(resolve) : resolve(config.compareUrl)),
+    discover: config.discover && {
+      ...config.discover,
+      sitemap: config.discover.sitemap && resolve(config.discover.sitemap),
+      crawl: config.discover.crawl && resolve(config.discover.crawl)
+    }
+  };
+}
+
+// 获取测试入口URL，传给前置脚本作为登录页的参考
+function getEntryUrl(config: TestConfig): string {
+  const firstEntry = config.urls && config.urls.length > 0 ? config.urls[0] : undefined;
+  if (firstEntry) {
+    return typeof firstEntry === 'string' ? firstEntry : firstEntry.url;
+  }
+  return config.discover?.crawl || config.url;
+}
+
+// 实际生效的主机映射，连接已运行的Chrome时不会应用，也不记录在结果中
+function getAppliedHostMap(config: TestConfig): HostMap | undefined {
+  if (!config.hostMap || Object.keys(config.hostMap).length === 0 || config.chrome?.cdpUrl) return undefined;
+  return config.hostMap;
+}
+
+// 确保报告输出目录存在
+export async function prepareOutputDirs(baseDir?: string): Promise<OutputDirs> {
+  // 确保输出目录存在
+  const outputDir = baseDir ? path.resolve(process.cwd(), baseDir) : path.join(__dirname, '../reports');
+  await fs.ensureDir(outputDir);
+  
+  // 创建可访问性问题分析目录
+  const accessibilityDir = path.join(outputDir, 'accessibility-issues');
+  await fs.ensureDir(accessibilityDir);
+  
+  // 创建Web Vitals数据目录
+  const webVitalsDir = path.join(outputDir, 'web-vitals');
+  await fs.ensureDir(webVitalsDir);
+  
+  // 创建历史数据目录
+  const historyDir = path.join(outputDir, 'history');
+  await fs.ensureDir(historyDir);
+  
+  return { outputDir, accessibilityDir, webVitalsDir, historyDir, baselinesFile: path.join(outputDir, 'baselines.json') };
+}
+
+// 运行单次Lighthouse测试并保存该次测试的报告
+async function runLighthousePass(job: RunJob, runner: LighthouseRunner, context: AuditContext): Promise<RunResult> {
+  const { config, dirs, logger, batch } = context;
+  const { outputDir, accessibilityDir, webVitalsDir } = dirs;
+  const { target, run: i } = job;
+  
+  // 批量模式下在文件名中加入URL标识，避免不同页面的文件互相覆盖
+  const filePrefix = batch ? `${getTargetSlug(target)}-` : '';
+  
+  logger.info(`\n运行第 ${i}/${target.testCount} 次Lighthouse测试${batch ? `: ${target.url}` : ''}...`);
+  
+  // 设置Lighthouse选项
+  const options = buildLighthouseOptions(target, config, runner.port, logger);
+  const runnerResult = await runner.run(target.url, options);
+  
+  // 保存每次测试的HTML报告
+  const timestamp = new Date().toISOString().replace(/:/g, '-');
+  const reportHtml = runnerResult.report;
+  const reportPath = path.join(outputDir, `lighthouse-report-${filePrefix}${i}-${timestamp}.html`);
+  await fs.writeFile(reportPath, reportHtml);
+  logger.debug(`第 ${i} 次测试报告已保存至: ${reportPath}`);
+  
+  // 提取Web Vitals指标
+  const webVitalsMetrics = extractWebVitals(runnerResult.lhr);
+  const webVitalsResult: WebVitalsResult = {
+    url: target.url,
+    metrics: webVitalsMetrics,
+    timestamp: new Date().toISOString(),
+    device: target.device,
+    deviceProfile: target.deviceProfile,
+    throttling: target.throttling.name,
+    requestSettings: getRecordedRequestSettings(getRequestSettings(target, config))
+  };
+  
+  // 保存Web Vitals数据
+  const webVitalsPath = path.join(webVitalsDir, `web-vitals-${filePrefix}${i}-${timestamp}.json`);
+  await fs.writeJSON(webVitalsPath, webVitalsResult, { spaces: 2 });
+  
+  // 分析并保存可访问性问题
+  const accessibilityIssues: AccessibilityIssue[] = [];
+  if (runnerResult.lhr.audits) {
+    for (const [id, audit] of Object.entries(runnerResult.lhr.audits)) {
+      // 只关注可访问性相关的审计项且得分不是满分或null
+      if (id.startsWith('accessibility/') && audit.score !== 1 && audit.score !== null) {
+        accessibilityIssues.push({
+          id: audit.id,
+          title: audit.title,
+          description: audit.description,
+          score: audit.score,
+          details: audit.details,
+          displayValue: audit.displayValue || ''
+        });
+      }
+    }
+    
+    if (accessibilityIssues.length > 0) {
+      const issuesPath = path.join(accessibilityDir, `accessibility-issues-${filePrefix}${i}-${timestamp}.json`);
+      await fs.writeJSON(issuesPath, accessibilityIssues, { spaces: 2 });
+      logger.debug(`发现 ${accessibilityIssues.length} 个可访问性问题，已保存至: ${issuesPath}`);
+      
+      // 输出可访问性问题摘要
+      logger.group('可访问性问题摘要:', () => {
+        accessibilityIssues.slice(0, 5).forEach((issue, index) => {
+          logger.warning(`${index + 1}. ${issue.title} - ${issue.displayValue}`);
+        });
+        if (accessibilityIssues.length > 5) {
+          logger.info(`...以及其他 ${accessibilityIssues.length - 5} 个问题`);
+        }
+      });
+      logger.info('改进建议: 请查看详细报告以获取完整的可访问性问题列表和修复建议。');
+    } else {
+      logger.success('未发现可访问性问题，太棒了！');
+    }
+  }
+  
+  // 收集本次测试的得分
+  const scores: Record<string, number> = {};
+  if (runnerResult.lhr.categories) {
+    for (const category of target.categories) {
+      if (runnerResult.lhr.categories[category]) {
+        scores[category] = runnerResult.lhr.categories[category].score * 100;
+      }
+    }
+  }
+  
+  // 输出当前测试的得分
+  logger.group(`第 ${i} 次测试得分:`, () => {
+    for (const [category, score] of Object.entries(scores)) {
+      logger.info(`${getCategoryName(category)}: ${formatScore(score)}`);
+    }
+  });
+  
+  // 输出Web Vitals指标
+  logger.group('Web Vitals指标:', () => {
+    for (const [key, value] of Object.entries(webVitalsMetrics)) {
+      if (value !== null) {
+        const unit = key === 'CLS' ? '' : 'ms';
+        logger.info(formatWebVital(key, value, unit));
+      }
+    }
+  });
+  
+  return {
+    run: i,
+    scores,
+    webVitals: webVitalsResult,
+    accessibilityIssues,
+    resourceSizes: extractResourceSizes(runnerResult.lhr),
+    reportPath,
+    options,
+    lighthouseVersion: runnerResult.lhr.lighthouseVersion
+  };
+}
+
+// 汇总单个URL的多次测试结果，生成截图、历史数据和详细报告
+async function finalizeTarget(target: TestTarget, runResults: RunResult[], context: AuditContext, stability?: StabilityResult): Promise<UrlAuditResult> {
+  const { config, browser, dirs, logger, batch, storageState } = context;
+  const { outputDir, historyDir } = dirs;
+  
+  // 批量模式下在文件名中加入URL标识，避免不同页面的文件互相覆盖
+  const filePrefix = batch ? `${getTargetSlug(target)}-` : '';
+  
+  // 按测试顺序整理结果
+  runResults.sort((a, b) => a.run - b.run);
+  const webVitalsResults = runResults.map(result => result.webVitals);
+  
+  // 计算各分类得分和Web Vitals指标的统计信息，得分取中位数
+  const stats = computeRunStats(
+    runResults.map(result => result.scores),
+    webVitalsResults.map(result => result.metrics)
+  );
+  const medianScores: Record<string, number> = {};
+  
+  logger.title(`${runResults.length}次测试得分统计`);
+  for (const category of target.categories) {
+    const categoryStats = stats.scores[category];
+    if (categoryStats) {
+      medianScores[category] = categoryStats.median;
+      logger.info(`${getCategoryName(category)}: ${formatScore(categoryStats.median)} ` +
+        `(最小 ${categoryStats.min.toFixed(1)} / 最大 ${categoryStats.max.toFixed(1)} / 标准差 ${categoryStats.stdDev.toFixed(1)})`);
+    }
+  }
+  
+  // 输出自适应测试的稳定性结果
+  if (stability) {
+    const { metric, runs, interval, targetWidth } = stability;
+    const widthText = interval ? interval.width.toFixed(metric === 'CLS' ? 3 : 1) : 'N/A';
+    logger.info(`自适应测试: 共 ${runs} 次，${metric} 的95%置信区间宽度为 ${widthText}（目标 ${targetWidth}）`);
+    if (!stability.stable) {
+      logger.warning(`${target.url} 在 ${runs} 次测试后 ${metric} 仍未达到目标稳定性，结果可能不够可靠`);
+    }
+  }
+  
+  // 选出最接近中位数的一次测试作为代表性结果
+  const representative = runResults[selectRepresentativeRun(webVitalsResults.map(result => result.metrics))];
+  logger.info(`代表性测试为第 ${representative.run} 次，Lighthouse报告: ${representative.reportPath}`);
+  
+  // 使用Playwright进行简单的页面截图
+  logger.info('\n使用Playwright进行页面截图...');
+  const screenshotContext = await browser.newContext({
+    ...getContextOptions(target.deviceProfile),
+    storageState
+  });
+  // 截图与Lighthouse测试使用相同的HTTP头、Cookie和屏蔽规则
+  await applyRequestSettings(screenshotContext, getRequestSettings(target, config), target.url);
+  const page = await screenshotContext.newPage();
+  
+  await page.goto(target.url);
+  
+  // 保存不同设备类型的截图
+  const screenshotPath = path.join(outputDir, `screenshot-${filePrefix}${getUrlSlug(target.device)}.png`);
+  await page.screenshot({ path: screenshotPath });
+  logger.success(`${target.device}设备页面截图已保存至: ${screenshotPath}`);
+  
+  await screenshotContext.close();
+  
+  // 准备测试结果数据
+  const testResult: TestResult = {
+    url: target.url,
+    device: target.device,
+    throttling: target.throttling.name,
+    timestamp: new Date().toISOString(),
+    scores: medianScores,
+    webVitals: representative.webVitals.metrics,
+    stats,
+    representativeRun: representative.run,
+    representativeReportPath: representative.reportPath,
+    stability,
+    hostMap: getAppliedHostMap(config),
+    // 记录Lighthouse版本和实际使用的设置，便于复现测试结果
+    lighthouse: {
+      version: representative.lighthouseVersion,
+      settings: getRecordedSettings(representative.options)
+    }
+  };
+  
+  // 检查性能预算：得分和Web Vitals使用中位数，资源大小使用代表性测试
+  if (config.budgets) {
+    testResult.resourceSizes = representative.resourceSizes;
+    testResult.budgetResults = checkBudgets({
+      scores: medianScores,
+      webVitals: getMedianWebVitals(testResult),
+      resourceSizes: representative.resourceSizes
+    }, config.budgets);
+    logBudgetResults(testResult.budgetResults, logger);
+  }
+  
+  // 与基准结果对比检查性能退化，需在保存本次历史数据之前读取基准
+  // 指定了基准结果却无法检查时记录原因，作为失败处理，避免回归检查在输入有误时静默通过
+  let baselineError: string | undefined;
+  if (config.baseline) {
+    let baseline: HistoryRecord | null = null;
+    try {
+      baseline = await loadBaseline(config.baseline, historyDir, dirs.baselinesFile, target.url, target.device, target.throttling.name);
+    } catch (error) {
+      baselineError = `读取 ${target.url} 的基准结果失败: ${error instanceof Error ? error.message : error}`;
+    }
+    
+    if (baselineError) {
+      logger.error(baselineError);
+    } else if (!baseline) {
+      baselineError = `未找到 ${target.url} 的基准结果（${config.baseline}），无法进行回归检查`;
+      logger.error(baselineError);
+    } else if (batch && baseline.url !== target.url) {
+      // 批量模式下指定的基准文件只用于同一URL
+      baselineError = `基准结果的URL为 ${baseline.url}，与 ${target.url} 不一致，无法进行回归检查`;
+      logger.error(baselineError);
+    } else {
+      logger.info(`基准结果: ${baseline.url} (${baseline.device}, ${baseline.timestamp})`);
+      testResult.regressionResults = checkRegressions(baseline, testResult, config.tolerances);
+      logRegressionResults(testResult.regressionResults, logger);
+      
+      const comparisonReportPath = await generateComparisonReport(baseline, testResult, outputDir);
+      logger.success(`基准对比报告已生成: ${comparisonReportPath}`);
+    }
+  }
+  
+  // 保存历史数据用于趋势分析
+  if (config.saveHistory) {
+    const historyPath = path.join(historyDir, `history-${filePrefix}${new Date().toISOString().replace(/:/g, '-')}.json`);
+    await fs.writeJSON(historyPath, testResult, { spaces: 2 });
+    logger.info(`历史数据已保存至: ${historyPath}`);
+    
+    // 读取同一URL、设备和网络条件的历史数据，按时间排序
+    const historyData = await loadHistory<TestResult>(historyDir, {
+      url: target.url,
+      device: target.device,
+      throttling: target.throttling.name
+    }, logger);
+    
+    // 生成趋势报告
+    if (historyData.length > 1) {
+      const trendReportPath = await generateTrendReport(historyData, outputDir);
+      logger.success(`趋势报告已生成: ${trendReportPath}`);
+    }
+  }
+  
+  // 生成详细报告
+  const detailedReportPath = await generateDetailedReport(testResult, webVitalsResults, outputDir);
+  logger.success(`详细报告已生成: ${detailedReportPath}`);
+  
+  return { url: target.url, device: target.device, throttling: target.throttling.name, testResult, runs: runResults, detailedReportPath, baselineError };
+}
+
+// 以表格形式输出预算检查结果
+function logBudgetResults(results: BudgetResult[], logger: Logger): void {
+  const failed = results.filter(result => !result.passed).length;
+  
+  logger.subtitle('性能预算检查');
+  logger.table(results.map(result => ({
+    指标: getCategoryName(result.name),
+    类型: getBudgetTypeName(result.type),
+    实际值: formatBudgetValue(result, result.actual),
+    阈值: formatBudgetValue(result, result.limit),
+    结果: result.passed ? '✓ 通过' : '✗ 未通过'
+  })), ['指标', '类型', '实际值', '阈值', '结果']);
+  
+  if (failed > 0) {
+    logger.error(`${failed}/${results.length} 项性能预算未通过`);
+  } else {
+    logger.success(`全部 ${results.length} 项性能预算通过`);
+  }
+}
+
+// 以表格形式输出屏蔽一组第三方域名后各指标的变化
+function logThirdPartyImpact(impact: ThirdPartyImpact, logger: Logger): void {
+  const sign = (value: number) => value > 0 ? '+' : '';
+  
+  logger.subtitle(`屏蔽 ${impact.group} 后的变化`);
+  logger.table([
+    ...Object.entries(impact.scoreDiffs).map(([category, diff]) => ({
+      指标: getCategoryName(category),
+      变化: `${sign(diff)}${diff.toFixed(1)}`
+    })),
+    ...Object.entries(impact.webVitalsDiffs).map(([key, diff]) => ({
+      指标: key,
+      变化: `${sign(diff.absolute)}${key === 'CLS' ? diff.absolute.toFixed(3) : `${Math.round(diff.absolute)}ms`} (${sign(diff.percentage)}${diff.percentage.toFixed(1)}%)`
+    }))
+  ], ['指标', '变化']);
+}
+
+// 以表格形式输出回归检查结果，并逐项说明退化原因
+function logRegressionResults(results: RegressionResult[], logger: Logger): void {
+  const regressed = results.filter(result => result.regressed);
+  
+  logger.subtitle('回归检查');
+  logger.table(results.map(result => ({
+    指标: getCategoryName(result.name),
+    基准值: formatRegressionValue(result, result.baseline),
+    当前值: formatRegressionValue(result, result.current),
+    变化: `${result.absolute > 0 ? '+' : ''}${result.percent.toFixed(1)}%`,
+    容差: formatTolerance(result),
+    结果: result.regressed ? '✗ 退化' : '✓ 通过'
+  })), ['指标', '基准值', '当前值', '变化', '容差', '结果']);
+  
+  if (regressed.length > 0) {
+    for (const result of regressed) {
+      logger.error(result.reason!);
+    }
+  } else {
+    logger.success(`全部 ${results.length} 项指标未超出容差`);
+  }
+}
+
+// 根据设备类型和配置生成Lighthouse选项
+function buildLighthouseOptions(target: { deviceProfile: DeviceProfile; throttling: ThrottlingProfile; categories: string[]; blockedUrlPatterns?: string[] }, config: TestConfig, port: number, logger: Logger): LighthouseOptions {
+  const options: LighthouseOptions = {
+    logLevel: getLighthouseLogLevel(logger.getLevel()),
+    output: 'html',
+    onlyCategories: target.categories,
+    port,
+    // 设置设备模拟：视口、像素比和User-Agent
+    ...getLighthouseEmulation(target.deviceProfile),
+    // 设置节流方式和网络、CPU节流参数
+    ...getLighthouseThrottling(target.throttling),
+    // 执行了前置脚本时保留登录状态，不清除Cookie和本地存储
+    // 其他情况不设置，用户流程中由Lighthouse决定（只在首次导航时清除）
+    ...(config.setupScript ? { disableStorageReset: true } : {}),
+    // 附加的HTTP头、Cookie和屏蔽的请求
+    ...getLighthouseRequestSettings(getRequestSettings(target, config))
+  };
+  
+  // 配置中的lighthouse部分优先于以上设置
+  return applyLighthouseSettings(options, config.lighthouse);
+}
+
+// 按工具的日志级别设置Lighthouse的日志级别，静默运行时Lighthouse同样不输出日志
+function getLighthouseLogLevel(level: LogLevel): string {
+  if (level <= LogLevel.DEBUG) return 'verbose';
+  if (level <= LogLevel.SUCCESS) return 'info';
+  if (level <= LogLevel.WARNING) return 'warn';
+  if (level <= LogLevel.ERROR) return 'error';
+  return 'silent';
+}
+
+// 测试目标使用的请求设置，第三方影响测试时在配置的屏蔽规则之外屏蔽该组第三方域名
+function getRequestSettings(target: { blockedUrlPatterns?: string[] }, config: TestConfig): RequestSettings {
+  if (!target.blockedUrlPatterns) return config;
+  return { ...config, blockedUrlPatterns: [...(config.blockedUrlPatterns || []), ...target.blockedUrlPatterns] };
+}
+
+// 去掉Lighthouse设置中与测试结果无关的字段（调试端口、日志级别和报告格式），并隐藏认证相关HTTP头的值
+function getRecordedSettings(options: LighthouseOptions): LighthouseRunInfo['settings'] {
+  const { port, logLevel, output, ...settings } = options;
+  return settings.extraHeaders ? { ...settings, extraHeaders: maskHeaders(settings.extraHeaders) } : settings;
+}
+
+// 将URL转换为可用于文件名的标识
+function getUrlSlug(url: string): string {
+  return url
+    .replace(/^https?:\/\//, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+// 测试目标在文件名中的标识，矩阵测试时加入测试条件
+function getTargetSlug(target: TestTarget): string {
+  return target.label ? `${getUrlSlug(target.url)}-${getUrlSlug(target.label)}` : getUrlSlug(target.url);
+}
+
+// 获取分类名称的中文显示
+function getCategoryName(category: string): string {
+  const categoryNames: Record<string, string> = {
+    'performance': '性能',
+    'accessibility': '可访问性',
+    'best-practices': '最佳实践',
+    'seo': 'SEO'
+  };
+  return categoryNames[category] || category;
+}
+
+// 测试结果
+export interface TestResult {
+  url: string;
+  device: string;
+  throttling?: string; // 节流预设名称
+  timestamp: string;
+  scores: Record<string, number>; // 各分类得分的中位数
+  webVitals: WebVitalsMetrics; // 代表性测试的Web Vitals指标
+  stats?: RunStats; // 多次测试的统计信息
+  representativeRun?: number; // 代表性测试的序号
+  representativeReportPath?: string; // 代表性测试的Lighthouse报告
+  stability?: StabilityResult; // 自适应测试的稳定性结果
+  resourceSizes?: Record<string, number>; // 代表性测试中各类资源的传输大小（字节）
+  budgetResults?: BudgetResult[]; // 性能预算检查结果
+  regressionResults?: RegressionResult[]; // 与基准结果对比的回归检查结果
+  lighthouse?: LighthouseRunInfo; // 测试使用的Lighthouse版本和设置
+  hostMap?: HostMap; // 测试时生效的主机映射
+}
+
+// 测试使用的Lighthouse版本和设置
+export interface LighthouseRunInfo {
+  version: string;
+  settings: Omit<LighthouseOptions, 'port' | 'logLevel' | 'output'>;
+}
@@ -0,0 +1,115 @@
+/**
+ * 性能预算模块
+ * 检查得分、Web Vitals指标和资源大小是否超出配置的预算
+ */
+
+import { WebVitalsMetrics } from './webVitals';
+
+export interface BudgetConfig {
+  scores?: Record<string, number>; // 各分类的最低得分
+  webVitals?: Partial<Record<keyof WebVitalsMetrics, number>>; // 各Web Vitals指标的最大值
+  resourceSizes?: Record<string, number>; // 各类资源的最大传输大小（KB），如script、image、total
+}
+
+export type BudgetType = 'score' | 'webVital' | 'resourceSize';
+
+export interface BudgetResult {
+  type: BudgetType;
+  name: string;
+  actual: number | null;
+  limit: number;
+  passed: boolean;
+}
+
+/**
+ * 待检查预算的测试结果
+ */
+export interface BudgetSubject {
+  scores: Record<string, number>;
+  webVitals: WebVitalsMetrics;
+  resourceSizes?: Record<string, number>; // 各类资源的传输大小（字节）
+}
+
+/**
+ * 检查测试结果是否满足预算，缺失的指标视为未通过
+ */
+export function checkBudgets(subject: BudgetSubject, budgets: BudgetConfig): BudgetResult[] {
+  const results: BudgetResult[] = [];
+  
+  for (const [category, minScore] of Object.entries(budgets.scores || {})) {
+    const actual = subject.scores[category] ?? null;
+    results.push({
+      type: 'score',
+      name: category,
+      actual,
+      limit: minScore,
+      passed: actual !== null && actual >= minScore
+    });
+  }
+  
+  for (const [key, maxValue] of Object.entries(budgets.webVitals || {})) {
+    const actual = subject.webVitals[key as keyof WebVitalsMetrics] ?? null;
+    results.push({
+      type: 'webVital',
+      name: key,
+      actual,
+      limit: maxValue as number,
+      passed: actual !== null && actual <= (maxValue as number)
+    });
+  }
+  
+  for (const [resourceType, maxKb] of Object.entries(budgets.resourceSizes || {})) {
+    const bytes = subject.resourceSizes ? subject.resourceSizes[resourceType] : undefined;
+    const actual = bytes !== undefined ? bytes / 1024 : null;
+    results.push({
+      type: 'resourceSize',
+      name: resourceType,
+      actual,
+      limit: maxKb,
+      passed: actual !== null && actual <= maxKb
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * 从Lighthouse结果的resource-summary审计项中提取各类资源的传输大小（字节）
+ */
+export function extractResourceSizes(lhr: any): Record<string, number> {
+  const audit = lhr.audits && lhr.audits['resource-summary'];
+  const items: Array<{ resourceType: string; transferSize: number }> = (audit && audit.details && audit.details.items) || [];
+  
+  const sizes: Record<string, number> = {};
+  for (const item of items) {
+    sizes[item.resourceType] = item.transferSize;
+  }
+  return sizes;
+}
+
+/**
+ * 格式化预算的实际值或阈值
+ */
+export function formatBudgetValue(result: BudgetResult, value: number | null): string {
+  if (value === null) return 'N/A';
+  switch (result.type) {
+    case 'score':
+      return value.toFixed(1);
+    case 'resourceSize':
+      return `${value.toFixed(1)}KB`;
+    default:
+      return result.name === 'CLS' ? value.toFixed(3) : `${Math.round(value)}ms`;
+  }
+}
+
+/**
+ * 获取预算类型的中文显示
+ */
+export function getBudgetTypeName(type: BudgetType): string {
+  const typeNames: Record<BudgetType, string> = {
+    score: '最低得分',
+    webVital: '指标上限',
+    resourceSize: '资源大小上限'
+  };
+  return typeNames[type];
+}
@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { launchChrome } from './chrome';
+
+test('连接wss远程调试地址时拒绝，Lighthouse无法通过TLS连接', async () => {
+  await assert.rejects(launchChrome({ cdpUrl: 'wss://chrome.example.com/devtools/browser/abc' }), /只能通过http连接Chrome/);
+});
+
+test('连接https远程调试地址时拒绝', async () => {
+  await assert.rejects(launchChrome({ cdpUrl: 'https://chrome.example.com:9222' }), /只能通过http连接Chrome/);
+});
+
+test('远程调试地址无法访问时拒绝', async () => {
+  await assert.rejects(launchChrome({ cdpUrl: 'ws://127.0.0.1:1/devtools/browser/abc' }), /无法连接Chrome远程调试地址/);
+});
@@ -0,0 +1,138 @@
+/**
+ * Chrome启动模块
+ * 按配置启动Lighthouse使用的Chrome和截图使用的Playwright浏览器，或连接已运行的Chrome远程调试地址
+ */
+
+import { chromium, Browser } from '@playwright/test';
+import * as chromeLauncher from 'chrome-launcher';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+/**
+ * Chrome启动配置
+ */
+export interface ChromeConfig {
+  executablePath?: string; // Chrome可执行文件路径，playwright表示使用Playwright自带的Chromium
+  flags?: string[]; // 附加的启动参数，同时用于Lighthouse使用的Chrome和截图使用的浏览器
+  cdpUrl?: string; // 已运行Chrome的远程调试地址，如http://127.0.0.1:9222，只支持http和ws，设置后不再启动Chrome
+}
+
+/**
+ * Lighthouse使用的Chrome实例
+ */
+export interface ChromeInstance {
+  hostname: string;
+  port: number;
+  cdpUrl: string; // 远程调试地址，供Playwright和Puppeteer连接
+  close(): Promise<void>;
+}
+
+// Lighthouse使用的Chrome的默认启动参数
+export const DEFAULT_CHROME_FLAGS = ['--headless', '--disable-gpu', '--no-sandbox'];
+
+// 表示使用Playwright自带Chromium的executablePath值
+export const PLAYWRIGHT_CHROMIUM = 'playwright';
+
+// 连接远程调试地址的超时时间（毫秒）
+const CDP_CONNECT_TIMEOUT = 10000;
+
+/**
+ * 解析Chrome可执行文件路径，未配置时返回undefined（由chrome-launcher和Playwright各自查找）
+ */
+export function resolveExecutablePath(executablePath?: string): string | undefined {
+  if (!executablePath) return undefined;
+  
+  if (executablePath === PLAYWRIGHT_CHROMIUM) {
+    const playwrightPath = chromium.executablePath();
+    if (!fs.existsSync(playwrightPath)) {
+      throw new Error(`Playwright自带的Chromium未安装: ${playwrightPath}，请先运行 npx playwright install chromium`);
+    }
+    return playwrightPath;
+  }
+  
+  const resolved = path.resolve(process.cwd(), executablePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Chrome可执行文件不存在: ${resolved}`);
+  }
+  return resolved;
+}
+
+/**
+ * 启动Lighthouse使用的Chrome实例，配置了cdpUrl时连接已运行的Chrome
+ * extraFlags在默认启动参数之后、配置的启动参数之前
+ */
+export async function launchChrome(config: ChromeConfig = {}, extraFlags: string[] = []): Promise<ChromeInstance> {
+  if (config.cdpUrl) {
+    return connectChrome(config.cdpUrl);
+  }
+  
+  const chrome = await chromeLauncher.launch({
+    chromePath: resolveExecutablePath(config.executablePath),
+    chromeFlags: [...DEFAULT_CHROME_FLAGS, ...extraFlags, ...(config.flags || [])]
+  });
+  return {
+    hostname: '127.0.0.1',
+    port: chrome.port,
+    cdpUrl: `http://127.0.0.1:${chrome.port}`,
+    close: async () => chrome.kill()
+  };
+}
+
+/**
+ * 启动截图和链接爬取使用的Playwright浏览器，与Lighthouse使用相同的Chrome可执行文件和启动参数
+ * 配置了cdpUrl时连接同一个Chrome，关闭时只断开连接
+ */
+export async function launchPlaywrightBrowser(config: ChromeConfig = {}, extraArgs: string[] = []): Promise<Browser> {
+  if (config.cdpUrl) {
+    return chromium.connectOverCDP(getHttpEndpoint(parseCdpUrl(config.cdpUrl)));
+  }
+  
+  return chromium.launch({
+    executablePath: resolveExecutablePath(config.executablePath),
+    args: [...extraArgs, ...(config.flags || [])]
+  });
+}
+
+/**
+ * 连接已运行的Chrome，先读取/json/version确认远程调试地址可用
+ * 连接的Chrome不由本工具启动，关闭时不做任何操作
+ */
+async function connectChrome(cdpUrl: string): Promise<ChromeInstance> {
+  const url = parseCdpUrl(cdpUrl);
+  const endpoint = getHttpEndpoint(url);
+  
+  try {
+    const response = await fetch(`${endpoint}/json/version`, { signal: AbortSignal.timeout(CDP_CONNECT_TIMEOUT) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  } catch (error) {
+    throw new Error(`无法连接Chrome远程调试地址 ${cdpUrl}: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  return {
+    hostname: url.hostname,
+    port: Number(url.port) || 80,
+    cdpUrl: endpoint,
+    close: async () => {}
+  };
+}
+
+/**
+ * 解析远程调试地址，只支持http和ws
+ * Lighthouse只按主机名和端口通过http://host:port连接Chrome，无法使用https或wss地址
+ */
+function parseCdpUrl(cdpUrl: string): URL {
+  const url = new URL(cdpUrl);
+  if (url.protocol !== 'http:' && url.protocol !== 'ws:') {
+    throw new Error(`不支持的Chrome远程调试地址 ${cdpUrl}：Lighthouse只能通过http连接Chrome，请使用http://或ws://地址`);
+  }
+  return url;
+}
+
+/**
+ * 将远程调试地址转换为HTTP地址，ws://host:port/devtools/browser/...形式的地址只保留主机和端口
+ */
+function getHttpEndpoint(url: URL): string {
+  return `http://${url.host}`;
+}
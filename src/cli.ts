@@ -78,6 +78,86 @@ export class ProgressBar {
   }
 }
 
+/**
+ * 并行进度条类
+ * 在总进度之后显示每个工作进程已完成的任务数和当前任务
+ */
+export class PoolProgressBar {
+  private barLength: number;
+  private completed: number;
+  private total: number;
+  private startTime: number;
+  private stream: NodeJS.WriteStream;
+  private workers: Array<{ completed: number; current: string | null }>;
+  
+  constructor(total: number, workerCount: number, barLength: number = 20) {
+    this.barLength = barLength;
+    this.completed = 0;
+    this.total = total;
+    this.startTime = Date.now();
+    this.stream = process.stdout;
+    this.workers = Array.from({ length: workerCount }, () => ({ completed: 0, current: null }));
+  }
+  
+  /**
+   * 增加任务总数（用于动态追加任务）
+   */
+  extend(count: number): void {
+    this.total += count;
+  }
+  
+  /**
+   * 标记工作进程开始执行任务
+   */
+  start(workerIndex: number, label: string): void {
+    this.workers[workerIndex].current = label;
+    this.render();
+  }
+  
+  /**
+   * 标记工作进程完成当前任务
+   */
+  finish(workerIndex: number): void {
+    this.workers[workerIndex].completed++;
+    this.workers[workerIndex].current = null;
+    this.completed++;
+    this.render();
+  }
+  
+  /**
+   * 完成进度条
+   */
+  complete(message: string = '完成!'): void {
+    const elapsed = (Date.now() - this.startTime) / 1000;
+    readline.clearLine(this.stream, 0);
+    readline.cursorTo(this.stream, 0);
+    this.stream.write(`${chalk.green('✓')} ${chalk.bold(message)} ${chalk.gray(`(总用时: ${formatTime(elapsed)})`)}
+`);
+  }
+  
+  private render(): void {
+    const percent = this.completed / this.total;
+    const elapsed = (Date.now() - this.startTime) / 1000;
+    const eta = elapsed / this.completed * (this.total - this.completed);
+    
+    const filledLength = Math.round(this.barLength * percent);
+    const filledBar = chalk.green('█'.repeat(filledLength));
+    const emptyBar = chalk.gray('░'.repeat(this.barLength - filledLength));
+    const etaText = isFinite(eta) ? chalk.cyan(`ETA: ${formatTime(eta)}`) : '';
+    
+    const workerText = this.workers.map((worker, index) => {
+      const status = worker.current ? chalk.yellow(worker.current) : chalk.gray('空闲');
+      return `${chalk.bold(`#${index + 1}`)} ${worker.completed} ${status}`;
+    }).join(chalk.gray(' | '));
+    
+    const line = `${chalk.bold(`[${this.completed}/${this.total}]`)} ${filledBar}${emptyBar} ${etaText} ${workerText}`;
+    
+    readline.clearLine(this.stream, 0);
+    readline.cursorTo(this.stream, 0);
+    this.stream.write(line);
+  }
+}
+
 /**
  * 格式化时间（秒）为可读格式
  */
@@ -95,7 +175,8 @@ export enum LogLevel {
   INFO = 1,
   SUCCESS = 2,
   WARNING = 3,
-  ERROR = 4
+  ERROR = 4,
+  SILENT = 5 // 不输出任何日志
 }
 
 /**
@@ -115,6 +196,13 @@ export class Logger {
     this.level = level;
   }
   
+  /**
+   * 获取日志级别
+   */
+  getLevel(): LogLevel {
+    return this.level;
+  }
+  
   /**
    * 调试日志
    */
@@ -229,12 +317,17 @@ export class Logger {
 /**
  * 创建交互式命令行界面
  */
-export function createCLI(): { logger: Logger, progress: (total: number) => ProgressBar } {
+export function createCLI(): {
+  logger: Logger,
+  progress: (total: number) => ProgressBar,
+  poolProgress: (total: number, workerCount: number) => PoolProgressBar
+} {
   const logger = new Logger();
   
   return {
     logger,
-    progress: (total: number) => new ProgressBar(total)
+    progress: (total: number) => new ProgressBar(total),
+    poolProgress: (total: number, workerCount: number) => new PoolProgressBar(total, workerCount)
   };
 }
 
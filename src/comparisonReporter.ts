@@ -6,46 +6,86 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { WebVitalsMetrics } from './webVitals';
+import { mannWhitneyU, MannWhitneyResult } from './statistics';
+import { BudgetResult, getBudgetTypeName } from './budgets';
+import { generateBudgetSection } from './reportGenerator';
+
+// 显著性检验的显著性水平
+const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * 多次测试中每个指标的原始测量值，用于显著性检验
+ */
+export interface ComparisonSamples {
+  scores: Record<string, number[]>;
+  webVitals: Partial<Record<keyof WebVitalsMetrics, number[]>>;
+}
+
+// 单个指标的显著性检验结果，样本不足时test为null
+interface MetricSignificance {
+  test: MannWhitneyResult | null;
+  significant: boolean;
+}
+
+// 参与对比的单个网站的测试结果
+interface ComparisonSite {
+  url: string;
+  timestamp: string;
+  device: string;
+  scores: Record<string, number>;
+  webVitals: WebVitalsMetrics;
+  budgetResults?: BudgetResult[]; // 未配置预算时不存在
+}
 
 interface ComparisonData {
-  baseline: {
-    url: string;
-    timestamp: string;
-    device: string;
-    scores: Record<string, number>;
-    webVitals: WebVitalsMetrics;
-  };
-  current: {
-    url: string;
-    timestamp: string;
-    device: string;
-    scores: Record<string, number>;
-    webVitals: WebVitalsMetrics;
-  };
+  baseline: ComparisonSite;
+  current: ComparisonSite;
+  significance?: Record<string, MetricSignificance>; // 提供了原始测量值时各指标的显著性检验结果
+  labels: Required<ComparisonLabels>;
 }
 
+/**
+ * 对比报告的标题和两组结果的名称
+ */
+export interface ComparisonLabels {
+  title?: string; // 默认为性能对比报告
+  baseline?: string; // 默认为基准版本
+  current?: string; // 默认为当前版本
+}
+
+// 多个网站的排行榜数据
+interface LeaderboardData {
+  sites: ComparisonSite[];
+  // 每个网站相对各指标第一名的显著性检验结果，与sites一一对应
+  significance?: Array<Record<string, MetricSignificance>>;
+}
+
+// 排行榜中各网站使用的颜色
+const SITE_COLORS = ['66, 133, 244', '52, 168, 83', '251, 188, 5', '234, 67, 53', '155, 89, 182', '0, 172, 193', '255, 112, 67', '121, 85, 72'];
+
 /**
  * 生成性能对比报告
+ * 提供两组的原始测量值时，对每个指标进行Mann-Whitney U检验，区分显著差异和测量噪声
  */
-export async function generateComparisonReport(baselineResults: any, currentResults: any, outputDir: string): Promise<string> {
+export async function generateComparisonReport(
+  baselineResults: any,
+  currentResults: any,
+  outputDir: string,
+  samples?: { baseline: ComparisonSamples; current: ComparisonSamples },
+  labels: ComparisonLabels = {}
+): Promise<string> {
   const timestamp = new Date().toISOString().replace(/:/g, '-');
   const reportPath = path.join(outputDir, `comparison-report-${timestamp}.html`);
   
   // 准备对比数据
   const comparisonData: ComparisonData = {
-    baseline: {
-      url: baselineResults.url,
-      timestamp: baselineResults.timestamp || new Date().toLocaleString('zh-CN'),
-      device: baselineResults.device,
-      scores: baselineResults.scores,
-      webVitals: baselineResults.webVitals
-    },
-    current: {
-      url: currentResults.url,
-      timestamp: currentResults.timestamp || new Date().toLocaleString('zh-CN'),
-      device: currentResults.device,
-      scores: currentResults.scores,
-      webVitals: currentResults.webVitals
+    baseline: toComparisonSite(baselineResults),
+    current: toComparisonSite(currentResults),
+    significance: samples ? calculateSignificance(samples.baseline, samples.current) : undefined,
+    labels: {
+      title: labels.title || '性能对比报告',
+      baseline: labels.baseline || '基准版本',
+      current: labels.current || '当前版本'
     }
   };
   
@@ -58,6 +98,46 @@ export async function generateComparisonReport(baselineResults: any, currentResu
   return reportPath;
 }
 
+/**
+ * 生成多个网站的对比报告
+ * 两个网站时生成两两对比报告，多于两个时生成排行榜报告，samples与results一一对应
+ */
+export async function generateMultiComparisonReport(results: any[], outputDir: string, samples?: ComparisonSamples[]): Promise<string> {
+  if (results.length < 2) {
+    throw new Error('对比报告至少需要两个测试结果');
+  }
+  if (results.length === 2) {
+    return generateComparisonReport(results[0], results[1], outputDir, samples ? { baseline: samples[0], current: samples[1] } : undefined);
+  }
+  
+  const timestamp = new Date().toISOString().replace(/:/g, '-');
+  const reportPath = path.join(outputDir, `leaderboard-report-${timestamp}.html`);
+  
+  const sites = results.map(toComparisonSite);
+  const leaderboardData: LeaderboardData = {
+    sites,
+    significance: samples ? calculateLeaderSignificance(sites, samples) : undefined
+  };
+  
+  await fs.writeFile(reportPath, generateLeaderboardHtml(leaderboardData));
+  
+  return reportPath;
+}
+
+/**
+ * 将测试结果转换为对比报告使用的数据
+ */
+function toComparisonSite(results: any): ComparisonSite {
+  return {
+    url: results.url,
+    timestamp: results.timestamp || new Date().toLocaleString('zh-CN'),
+    device: results.device,
+    scores: results.scores,
+    webVitals: results.webVitals,
+    budgetResults: results.budgetResults
+  };
+}
+
 /**
  * 生成对比报告HTML
  */
@@ -74,7 +154,7 @@ function generateComparisonHtml(data: ComparisonData): string {
   <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>性能对比报告</title>
+    <title>${data.labels.title}</title>
     <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
     <style>
       :root {
@@ -191,6 +271,21 @@ function generateComparisonHtml(data: ComparisonData): string {
         background-color: rgba(0, 0, 0, 0.05);
       }
       
+      .significant {
+        color: var(--primary-color);
+        background-color: rgba(66, 133, 244, 0.1);
+      }
+      
+      .good {
+        color: var(--improvement-color);
+        background-color: rgba(52, 168, 83, 0.1);
+      }
+      
+      .poor {
+        color: var(--regression-color);
+        background-color: rgba(234, 67, 53, 0.1);
+      }
+      
       .chart-container {
         height: 400px;
         margin-top: 20px;
@@ -225,10 +320,10 @@ function generateComparisonHtml(data: ComparisonData): string {
   </head>
   <body>
     <div class="report-header">
-      <h1 class="report-title">性能对比报告</h1>
+      <h1 class="report-title">${data.labels.title}</h1>
       <div class="report-meta">
-        <div><strong>基准版本:</strong> ${data.baseline.url}</div>
-        <div><strong>当前版本:</strong> ${data.current.url}</div>
+        <div><strong>${data.labels.baseline}:</strong> ${data.baseline.url}</div>
+        <div><strong>${data.labels.current}:</strong> ${data.current.url}</div>
         <div><strong>测试时间:</strong> ${data.current.timestamp}</div>
         <div><strong>设备类型:</strong> ${data.current.device}</div>
       </div>
@@ -239,8 +334,9 @@ function generateComparisonHtml(data: ComparisonData): string {
       <div class="summary-card">
         <div class="summary-title">总体性能变化</div>
         <div class="summary-stats">
-          ${generateSummaryStats(scoreDiffs, webVitalsDiffs)}
+          ${generateSummaryStats(scoreDiffs, webVitalsDiffs, data.significance)}
         </div>
+        ${data.significance ? `<p>基于 Mann-Whitney U 检验（p &lt; ${SIGNIFICANCE_LEVEL}），未达到显著性的差异视为测量噪声。</p>` : ''}
       </div>
       
       <div class="chart-container">
@@ -254,16 +350,17 @@ function generateComparisonHtml(data: ComparisonData): string {
         <thead>
           <tr>
             <th>指标</th>
-            <th>基准版本</th>
-            <th>当前版本</th>
+            <th>${data.labels.baseline}</th>
+            <th>${data.labels.current}</th>
             <th>变化</th>
+            ${data.significance ? '<th>显著性</th>' : ''}
           </tr>
         </thead>
         <tbody>
           ${Object.entries(data.baseline.scores).map(([category, score]) => {
             const currentScore = data.current.scores[category] || 0;
             const diff = currentScore - score;
-            const diffClass = diff > 1 ? 'improvement' : diff < -1 ? 'regression' : 'neutral';
+            const diffClass = getDiffClass(diff, data.significance ? data.significance[category] : undefined);
             const diffPrefix = diff > 0 ? '+' : '';
             const categoryName = getCategoryName(category);
             
@@ -273,6 +370,7 @@ function generateComparisonHtml(data: ComparisonData): string {
                 <td class="baseline-value">${score.toFixed(1)}</td>
                 <td class="current-value">${currentScore.toFixed(1)}</td>
                 <td><span class="diff-value ${diffClass}">${diffPrefix}${diff.toFixed(1)}</span></td>
+                ${data.significance ? generateSignificanceCell(data.significance[category]) : ''}
               </tr>
             `;
           }).join('')}
@@ -286,14 +384,15 @@ function generateComparisonHtml(data: ComparisonData): string {
         <thead>
           <tr>
             <th>指标</th>
-            <th>基准版本</th>
-            <th>当前版本</th>
+            <th>${data.labels.baseline}</th>
+            <th>${data.labels.current}</th>
             <th>变化</th>
             <th>变化百分比</th>
+            ${data.significance ? '<th>显著性</th>' : ''}
           </tr>
         </thead>
         <tbody>
-          ${generateWebVitalsComparisonRows(data.baseline.webVitals, data.current.webVitals)}
+          ${generateWebVitalsComparisonRows(data.baseline.webVitals, data.current.webVitals, data.significance)}
         </tbody>
       </table>
       
@@ -302,6 +401,10 @@ function generateComparisonHtml(data: ComparisonData): string {
       </div>
     </div>
     
+    ${data.baseline.budgetResults ? generateBudgetSection(data.baseline.budgetResults, `性能预算 - ${data.labels.baseline}`, 'comparison-table') : ''}
+    
+    ${data.current.budgetResults ? generateBudgetSection(data.current.budgetResults, `性能预算 - ${data.labels.current}`, 'comparison-table') : ''}
+    
     <script>
       // 准备图表数据
       const baselineScores = ${JSON.stringify(data.baseline.scores)};
@@ -317,14 +420,14 @@ function generateComparisonHtml(data: ComparisonData): string {
           labels: Object.keys(baselineScores).map(key => getCategoryNameForChart(key)),
           datasets: [
             {
-              label: '基准版本',
+              label: ${JSON.stringify(data.labels.baseline)},
               data: Object.values(baselineScores),
               backgroundColor: 'rgba(66, 133, 244, 0.6)',
               borderColor: 'rgba(66, 133, 244, 1)',
               borderWidth: 1
             },
             {
-              label: '当前版本',
+              label: ${JSON.stringify(data.labels.current)},
               data: Object.values(currentScores),
               backgroundColor: 'rgba(52, 168, 83, 0.6)',
               borderColor: 'rgba(52, 168, 83, 1)',
@@ -398,7 +501,7 @@ function generateComparisonHtml(data: ComparisonData): string {
           labels: webVitalsKeys,
           datasets: [
             {
-              label: '基准版本',
+              label: ${JSON.stringify(data.labels.baseline)},
               data: webVitalsKeys.map(key => normalizedBaseline[key]),
               backgroundColor: 'rgba(66, 133, 244, 0.2)',
               borderColor: 'rgba(66, 133, 244, 1)',
@@ -408,7 +511,7 @@ function generateComparisonHtml(data: ComparisonData): string {
               pointHoverBorderColor: 'rgba(66, 133, 244, 1)'
             },
             {
-              label: '当前版本',
+              label: ${JSON.stringify(data.labels.current)},
               data: webVitalsKeys.map(key => normalizedCurrent[key]),
               backgroundColor: 'rgba(52, 168, 83, 0.2)',
               borderColor: 'rgba(52, 168, 83, 1)',
@@ -453,7 +556,7 @@ function generateComparisonHtml(data: ComparisonData): string {
 /**
  * 计算得分差异
  */
-function calculateScoreDiffs(baselineScores: Record<string, number>, currentScores: Record<string, number>): Record<string, number> {
+export function calculateScoreDiffs(baselineScores: Record<string, number>, currentScores: Record<string, number>): Record<string, number> {
   const diffs: Record<string, number> = {};
   
   for (const [category, score] of Object.entries(baselineScores)) {
@@ -467,7 +570,7 @@ function calculateScoreDiffs(baselineScores: Record<string, number>, currentScor
 /**
  * 计算Web Vitals指标差异
  */
-function calculateWebVitalsDiffs(baselineWebVitals: WebVitalsMetrics, currentWebVitals: WebVitalsMetrics): Record<string, { absolute: number, percentage: number, improved: boolean }> {
+export function calculateWebVitalsDiffs(baselineWebVitals: WebVitalsMetrics, currentWebVitals: WebVitalsMetrics): Record<string, { absolute: number, percentage: number, improved: boolean }> {
   const diffs: Record<string, { absolute: number, percentage: number, improved: boolean }> = {};
   
   for (const key of Object.keys(baselineWebVitals) as Array<keyof WebVitalsMetrics>) {
@@ -495,7 +598,7 @@ function calculateWebVitalsDiffs(baselineWebVitals: WebVitalsMetrics, currentWeb
 /**
  * 生成Web Vitals对比表格行
  */
-function generateWebVitalsComparisonRows(baselineWebVitals: WebVitalsMetrics, currentWebVitals: WebVitalsMetrics): string {
+function generateWebVitalsComparisonRows(baselineWebVitals: WebVitalsMetrics, currentWebVitals: WebVitalsMetrics, significance?: Record<string, MetricSignificance>): string {
   const webVitalsInfo = {
     FCP: { name: 'First Contentful Paint', unit: 'ms' },
     LCP: { name: 'Largest Contentful Paint', unit: 'ms' },
@@ -518,7 +621,9 @@ function generateWebVitalsComparisonRows(baselineWebVitals: WebVitalsMetrics, cu
     const percentDiff = baselineValue !== 0 ? (diff / baselineValue) * 100 : 0;
     
     // 对于所有Web Vitals指标，值越小越好
-    const diffClass = diff < 0 ? 'improvement' : diff > 0 ? 'regression' : 'neutral';
+    const diffClass = significance
+      ? getDiffClass(-diff, significance[key])
+      : diff < 0 ? 'improvement' : diff > 0 ? 'regression' : 'neutral';
     const diffPrefix = diff < 0 ? '' : '+';
     
     // 格式化显示值
@@ -540,6 +645,7 @@ function generateWebVitalsComparisonRows(baselineWebVitals: WebVitalsMetrics, cu
         <td class="current-value">${currentDisplay}</td>
         <td><span class="diff-value ${diffClass}">${diffDisplay}</span></td>
         <td><span class="diff-value ${diffClass}">${diffPrefix}${percentDiff.toFixed(1)}%</span></td>
+        ${significance ? generateSignificanceCell(significance[key]) : ''}
       </tr>
     `;
   }
@@ -550,21 +656,30 @@ function generateWebVitalsComparisonRows(baselineWebVitals: WebVitalsMetrics, cu
 /**
  * 生成摘要统计信息
  */
-function generateSummaryStats(scoreDiffs: Record<string, number>, webVitalsDiffs: Record<string, { absolute: number, percentage: number, improved: boolean }>): string {
-  // 计算改进和退化的指标数量
+function generateSummaryStats(
+  scoreDiffs: Record<string, number>,
+  webVitalsDiffs: Record<string, { absolute: number, percentage: number, improved: boolean }>,
+  significance?: Record<string, MetricSignificance>
+): string {
+  // 计算改进和退化的指标数量，有显著性检验结果时只统计显著的差异
   let improvedScores = 0;
   let regressedScores = 0;
   
-  for (const diff of Object.values(scoreDiffs)) {
-    if (diff > 1) improvedScores++;
-    else if (diff < -1) regressedScores++;
+  for (const [category, diff] of Object.entries(scoreDiffs)) {
+    const diffClass = significance ? getDiffClass(diff, significance[category]) : diff > 1 ? 'improvement' : diff < -1 ? 'regression' : 'neutral';
+    if (diffClass === 'improvement') improvedScores++;
+    else if (diffClass === 'regression') regressedScores++;
   }
   
   let improvedWebVitals = 0;
   let regressedWebVitals = 0;
   
-  for (const diff of Object.values(webVitalsDiffs)) {
-    if (diff.improved) improvedWebVitals++;
+  for (const [key, diff] of Object.entries(webVitalsDiffs)) {
+    if (significance) {
+      const diffClass = getDiffClass(-diff.absolute, significance[key]);
+      if (diffClass === 'improvement') improvedWebVitals++;
+      else if (diffClass === 'regression') regressedWebVitals++;
+    } else if (diff.improved) improvedWebVitals++;
     else if (!diff.improved && Math.abs(diff.percentage) > 1) regressedWebVitals++;
   }
   
@@ -581,6 +696,518 @@ function generateSummaryStats(scoreDiffs: Record<string, number>, webVitalsDiffs
   `;
 }
 
+/**
+ * 对两组原始测量值中的每个指标进行Mann-Whitney U检验
+ */
+function calculateSignificance(baseline: ComparisonSamples, current: ComparisonSamples): Record<string, MetricSignificance> {
+  const significance: Record<string, MetricSignificance> = {};
+  const groups: Array<[Record<string, number[] | undefined>, Record<string, number[] | undefined>]> = [
+    [baseline.scores, current.scores],
+    [baseline.webVitals, current.webVitals]
+  ];
+  
+  for (const [baselineValues, currentValues] of groups) {
+    for (const [key, values] of Object.entries(baselineValues)) {
+      const test = mannWhitneyU(values || [], currentValues[key] || []);
+      significance[key] = { test, significant: test !== null && test.pValue < SIGNIFICANCE_LEVEL };
+    }
+  }
+  
+  return significance;
+}
+
+/**
+ * 根据变化方向和显著性获取样式类，change为正表示改进
+ */
+function getDiffClass(change: number, significance?: MetricSignificance): string {
+  if (!significance || !significance.significant || change === 0) return 'neutral';
+  return change > 0 ? 'improvement' : 'regression';
+}
+
+/**
+ * 样本数太少，无论差异多大都不可能达到显著性水平
+ */
+function isUnderpowered(significance: MetricSignificance): boolean {
+  return !significance.test || significance.test.minPValue >= SIGNIFICANCE_LEVEL;
+}
+
+/**
+ * 生成显著性检验结果单元格
+ */
+function generateSignificanceCell(significance?: MetricSignificance): string {
+  if (!significance || !significance.test) {
+    return '<td><span class="diff-value neutral">样本不足</span></td>';
+  }
+  if (isUnderpowered(significance)) {
+    return `<td><span class="diff-value neutral">样本不足 (最小p=${significance.test.minPValue.toFixed(3)})</span></td>`;
+  }
+  const label = significance.significant ? '显著' : '噪声';
+  return `<td><span class="diff-value ${significance.significant ? 'significant' : 'neutral'}">${label} (p=${significance.test.pValue.toFixed(3)})</span></td>`;
+}
+
+/**
+ * 对每个指标，检验各网站与第一名之间的差异是否显著
+ */
+function calculateLeaderSignificance(sites: ComparisonSite[], samples: ComparisonSamples[]): Array<Record<string, MetricSignificance>> {
+  const significance: Array<Record<string, MetricSignificance>> = sites.map(() => ({}));
+  
+  const check = (key: string, leader: number, getValues: (sample: ComparisonSamples) => number[] | undefined) => {
+    sites.forEach((_, index) => {
+      if (index === leader) return;
+      const test = mannWhitneyU(getValues(samples[leader]) || [], getValues(samples[index]) || []);
+      significance[index][key] = { test, significant: test !== null && test.pValue < SIGNIFICANCE_LEVEL };
+    });
+  };
+  
+  for (const category of getCategories(sites)) {
+    const ranking = rankSites(sites, site => site.scores[category], true);
+    if (ranking.length > 0) check(category, ranking[0].index, sample => sample.scores[category]);
+  }
+  for (const key of getWebVitalKeys(sites)) {
+    const ranking = rankSites(sites, site => site.webVitals[key], false);
+    if (ranking.length > 0) check(key, ranking[0].index, sample => sample.webVitals[key]);
+  }
+  
+  return significance;
+}
+
+/**
+ * 按指标值对网站排名，缺少该指标的网站不参与排名
+ */
+function rankSites(
+  sites: ComparisonSite[],
+  getValue: (site: ComparisonSite) => number | null | undefined,
+  higherIsBetter: boolean
+): Array<{ index: number; value: number }> {
+  return sites
+    .map((site, index) => ({ index, value: getValue(site) }))
+    .filter((item): item is { index: number; value: number } => item.value !== null && item.value !== undefined)
+    .sort((a, b) => higherIsBetter ? b.value - a.value : a.value - b.value);
+}
+
+/**
+ * 获取所有网站中出现过的分类
+ */
+function getCategories(sites: ComparisonSite[]): string[] {
+  return Array.from(new Set(sites.flatMap(site => Object.keys(site.scores))));
+}
+
+/**
+ * 获取至少有一个网站测得数值的Web Vitals指标
+ */
+function getWebVitalKeys(sites: ComparisonSite[]): Array<keyof WebVitalsMetrics> {
+  const keys: Array<keyof WebVitalsMetrics> = ['FCP', 'LCP', 'CLS', 'FID', 'TTI', 'TBT', 'TTFB'];
+  return keys.filter(key => sites.some(site => site.webVitals[key] !== null && site.webVitals[key] !== undefined));
+}
+
+/**
+ * 获取网站在报告中显示的简短名称
+ */
+function getSiteLabel(url: string): string {
+  return url.replace(/^https?:\/\//, '').replace(/\/$/, '');
+}
+
+/**
+ * 格式化Web Vitals指标值
+ */
+function formatWebVitalValue(key: string, value: number): string {
+  return key === 'CLS' ? value.toFixed(3) : `${Math.round(value)}ms`;
+}
+
+/**
+ * 生成排行榜报告HTML
+ */
+function generateLeaderboardHtml(data: LeaderboardData): string {
+  const { sites } = data;
+  const categories = getCategories(sites);
+  const webVitalKeys = getWebVitalKeys(sites);
+  
+  // 各网站的平均得分，用于总排名
+  const averages = sites.map(site => {
+    const scores = categories.map(category => site.scores[category]).filter(score => score !== undefined);
+    return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+  });
+  const overallRanking = rankSites(sites, site => averages[sites.indexOf(site)], true);
+  
+  return `
+  <!DOCTYPE html>
+  <html lang="zh-CN">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>性能排行榜</title>
+    <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
+    <style>
+      :root {
+        --primary-color: #4285f4;
+        --secondary-color: #34a853;
+        --warning-color: #fbbc05;
+        --danger-color: #ea4335;
+        --light-color: #f8f9fa;
+        --dark-color: #343a40;
+      }
+      
+      body {
+        font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+        line-height: 1.6;
+        color: #333;
+        max-width: 1200px;
+        margin: 0 auto;
+        padding: 20px;
+        background-color: #f5f5f5;
+      }
+      
+      .report-header,
+      .report-section {
+        background-color: white;
+        padding: 20px;
+        border-radius: 8px;
+        box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+        margin-bottom: 20px;
+      }
+      
+      .report-title {
+        color: var(--primary-color);
+        margin: 0;
+        font-size: 24px;
+      }
+      
+      .report-meta {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 20px;
+        margin-top: 10px;
+        color: #666;
+      }
+      
+      .section-title {
+        color: var(--primary-color);
+        border-bottom: 2px solid var(--light-color);
+        padding-bottom: 10px;
+        margin-top: 0;
+      }
+      
+      .comparison-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin-top: 20px;
+      }
+      
+      .comparison-table th,
+      .comparison-table td {
+        padding: 10px 12px;
+        text-align: left;
+        border-bottom: 1px solid #ddd;
+      }
+      
+      .comparison-table th {
+        background-color: var(--light-color);
+        font-weight: bold;
+        color: var(--dark-color);
+      }
+      
+      .metric-name {
+        font-weight: bold;
+      }
+      
+      .best-value {
+        color: var(--secondary-color);
+        font-weight: bold;
+      }
+      
+      .best-site {
+        color: var(--secondary-color);
+        background-color: rgba(52, 168, 83, 0.1);
+        font-weight: bold;
+      }
+      
+      .leaderboard-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(350px, 1fr));
+        gap: 20px;
+      }
+      
+      .leaderboard-card {
+        border: 1px solid #eee;
+        border-radius: 8px;
+        padding: 15px;
+      }
+      
+      .leaderboard-card h3 {
+        margin: 0;
+        color: var(--dark-color);
+      }
+      
+      .rank {
+        font-weight: bold;
+        width: 40px;
+      }
+      
+      .neutral {
+        color: #666;
+      }
+      
+      .significant {
+        color: var(--danger-color);
+      }
+      
+      .good {
+        color: var(--secondary-color);
+      }
+      
+      .poor {
+        color: var(--danger-color);
+      }
+      
+      .chart-container {
+        height: 400px;
+        margin-top: 20px;
+      }
+    </style>
+  </head>
+  <body>
+    <div class="report-header">
+      <h1 class="report-title">性能排行榜</h1>
+      <div class="report-meta">
+        <div><strong>网站数量:</strong> ${sites.length}</div>
+        <div><strong>测试时间:</strong> ${sites[0].timestamp}</div>
+        <div><strong>设备类型:</strong> ${sites[0].device}</div>
+      </div>
+    </div>
+    
+    <div class="report-section">
+      <h2 class="section-title">总排名</h2>
+      <table class="comparison-table">
+        <thead>
+          <tr>
+            <th>排名</th>
+            <th>网站</th>
+            <th>平均得分</th>
+            <th>领先指标数</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${overallRanking.map(({ index, value }, rank) => `
+            <tr>
+              <td class="rank">${rank + 1}</td>
+              <td title="${sites[index].url}">${getSiteLabel(sites[index].url)}</td>
+              <td>${value.toFixed(1)}</td>
+              <td>${countLeads(sites, index, categories, webVitalKeys)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+    
+    <div class="report-section">
+      <h2 class="section-title">Lighthouse 得分</h2>
+      <div class="chart-container">
+        <canvas id="scoreChart"></canvas>
+      </div>
+      <table class="comparison-table">
+        <thead>
+          <tr>
+            <th>指标</th>
+            ${sites.map(site => `<th title="${site.url}">${getSiteLabel(site.url)}</th>`).join('')}
+            <th>最佳</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${categories.map(category => generateLeaderboardOverviewRow(
+            getCategoryName(category),
+            sites,
+            rankSites(sites, site => site.scores[category], true),
+            value => value.toFixed(1)
+          )).join('')}
+        </tbody>
+      </table>
+    </div>
+    
+    <div class="report-section">
+      <h2 class="section-title">Web Vitals 指标</h2>
+      <table class="comparison-table">
+        <thead>
+          <tr>
+            <th>指标</th>
+            ${sites.map(site => `<th title="${site.url}">${getSiteLabel(site.url)}</th>`).join('')}
+            <th>最佳</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${webVitalKeys.map(key => generateLeaderboardOverviewRow(
+            key,
+            sites,
+            rankSites(sites, site => site.webVitals[key], false),
+            value => formatWebVitalValue(key, value)
+          )).join('')}
+        </tbody>
+      </table>
+    </div>
+    
+    <div class="report-section">
+      <h2 class="section-title">Web Vitals 排行榜</h2>
+      ${data.significance ? `<p>与第一名的差异基于 Mann-Whitney U 检验（p &lt; ${SIGNIFICANCE_LEVEL}），未达到显著性的差异视为测量噪声。</p>` : ''}
+      <div class="leaderboard-grid">
+        ${webVitalKeys.map(key => generateWebVitalLeaderboard(key, sites, data.significance)).join('')}
+      </div>
+    </div>
+    
+    ${sites.some(site => site.budgetResults) ? generateLeaderboardBudgetSection(sites) : ''}
+    
+    <script>
+      // 按分类分组的得分柱状图，每个网站一组颜色
+      const categories = ${JSON.stringify(categories)};
+      const categoryNames = ${JSON.stringify(categories.map(getCategoryName))};
+      const sites = ${JSON.stringify(sites.map(site => ({ label: getSiteLabel(site.url), scores: site.scores })))};
+      const colors = ${JSON.stringify(SITE_COLORS)};
+      
+      new Chart(document.getElementById('scoreChart').getContext('2d'), {
+        type: 'bar',
+        data: {
+          labels: categoryNames,
+          datasets: sites.map((site, index) => ({
+            label: site.label,
+            data: categories.map(category => site.scores[category] ?? null),
+            backgroundColor: 'rgba(' + colors[index % colors.length] + ', 0.6)',
+            borderColor: 'rgba(' + colors[index % colors.length] + ', 1)',
+            borderWidth: 1
+          }))
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          scales: {
+            y: {
+              beginAtZero: true,
+              max: 100,
+              title: {
+                display: true,
+                text: '得分'
+              }
+            }
+          }
+        }
+      });
+    </script>
+  </body>
+  </html>
+  `;
+}
+
+/**
+ * 生成总览表格中的一行，最佳值高亮并在最后一列显示最佳网站
+ */
+function generateLeaderboardOverviewRow(
+  name: string,
+  sites: ComparisonSite[],
+  ranking: Array<{ index: number; value: number }>,
+  format: (value: number) => string
+): string {
+  const best = ranking.length > 0 ? ranking[0] : null;
+  const values = new Map(ranking.map(item => [item.index, item.value]));
+  
+  return `
+    <tr>
+      <td class="metric-name">${name}</td>
+      ${sites.map((_, index) => {
+        const value = values.get(index);
+        if (value === undefined) return '<td>N/A</td>';
+        return `<td class="${best && value === best.value ? 'best-value' : ''}">${format(value)}</td>`;
+      }).join('')}
+      <td class="best-site">${best ? getSiteLabel(sites[best.index].url) : 'N/A'}</td>
+    </tr>
+  `;
+}
+
+/**
+ * 生成排行榜中各网站的性能预算检查结果，只列出未通过的预算项
+ */
+function generateLeaderboardBudgetSection(sites: ComparisonSite[]): string {
+  return `
+    <div class="report-section">
+      <h2 class="section-title">性能预算</h2>
+      <table class="comparison-table">
+        <thead>
+          <tr>
+            <th>网站</th>
+            <th>结果</th>
+            <th>未通过的预算</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${sites.map(site => {
+            if (!site.budgetResults) {
+              return `<tr><td title="${site.url}">${getSiteLabel(site.url)}</td><td>-</td><td>-</td></tr>`;
+            }
+            const failed = site.budgetResults.filter(result => !result.passed);
+            return `
+              <tr>
+                <td title="${site.url}">${getSiteLabel(site.url)}</td>
+                <td class="${failed.length > 0 ? 'poor' : 'good'}">${failed.length > 0 ? `${failed.length}/${site.budgetResults.length} 项未通过` : `全部 ${site.budgetResults.length} 项通过`}</td>
+                <td>${failed.map(result => `${getCategoryName(result.name)}（${getBudgetTypeName(result.type)}）`).join('、') || '-'}</td>
+              </tr>
+            `;
+          }).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * 生成单个Web Vitals指标的排行榜
+ */
+function generateWebVitalLeaderboard(key: keyof WebVitalsMetrics, sites: ComparisonSite[], significance?: Array<Record<string, MetricSignificance>>): string {
+  const ranking = rankSites(sites, site => site.webVitals[key], false);
+  const best = ranking[0];
+  
+  return `
+    <div class="leaderboard-card">
+      <h3>${key}</h3>
+      <table class="comparison-table">
+        <thead>
+          <tr>
+            <th>排名</th>
+            <th>网站</th>
+            <th>数值</th>
+            <th>与第一名差距</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${ranking.map(({ index, value }, rank) => {
+            const gap = rank === 0 ? '-' : `+${formatWebVitalValue(key, value - best.value)}`;
+            const test = significance && rank > 0 ? significance[index][key] : undefined;
+            const gapClass = test ? (test.significant ? 'significant' : 'neutral') : '';
+            const gapNote = test ? (isUnderpowered(test) ? ' (样本不足)' : test.significant ? ' (显著)' : ' (噪声)') : '';
+            
+            return `
+              <tr>
+                <td class="rank">${rank + 1}</td>
+                <td title="${sites[index].url}">${getSiteLabel(sites[index].url)}</td>
+                <td class="${rank === 0 ? 'best-value' : ''}">${formatWebVitalValue(key, value)}</td>
+                <td class="${gapClass}">${gap}${gapNote}</td>
+              </tr>
+            `;
+          }).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * 统计网站在多少个指标上排名第一（并列也计入）
+ */
+function countLeads(sites: ComparisonSite[], siteIndex: number, categories: string[], webVitalKeys: Array<keyof WebVitalsMetrics>): number {
+  const rankings = [
+    ...categories.map(category => rankSites(sites, site => site.scores[category], true)),
+    ...webVitalKeys.map(key => rankSites(sites, site => site.webVitals[key], false))
+  ];
+  return rankings.filter(ranking =>
+    ranking.some(item => item.index === siteIndex && item.value === ranking[0].value)
+  ).length;
+}
+
 /**
  * 获取分类名称的中文显示
  */
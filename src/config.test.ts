@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfigFile } from './config';
+import { THROTTLING_PRESETS } from './throttling';
+
+// 在临时目录中写入配置文件，返回第一个文件的路径
+async function writeConfigFiles(files: Record<string, unknown>): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'lh-config-'));
+  for (const [name, content] of Object.entries(files)) {
+    await fs.writeJSON(path.join(dir, name), content);
+  }
+  return path.join(dir, Object.keys(files)[0]);
+}
+
+test('profile中的部分节流参数与继承的节流预设合并', async () => {
+  const configPath = await writeConfigFiles({
+    'perf.json': {
+      extends: './base.json',
+      profiles: { staging: { throttling: { cpuSlowdownMultiplier: 2 } } }
+    },
+    'base.json': { throttling: 'slow-3g' }
+  });
+  
+  const config = await loadConfigFile(configPath, 'staging', {});
+  assert.deepStrictEqual(config.throttling, { ...THROTTLING_PRESETS['slow-3g'].settings, cpuSlowdownMultiplier: 2 });
+  // 未选择profile时保留预设名称
+  assert.strictEqual((await loadConfigFile(configPath, undefined, {})).throttling, 'slow-3g');
+});
+
+test('继承时部分节流参数与父配置的节流预设合并', async () => {
+  const configPath = await writeConfigFiles({
+    'perf.json': { extends: './base.json', throttling: { rttMs: 10 } },
+    'base.json': { throttling: 'fast-4g' }
+  });
+  
+  const config = await loadConfigFile(configPath, undefined, {});
+  assert.deepStrictEqual(config.throttling, { ...THROTTLING_PRESETS['fast-4g'].settings, rttMs: 10 });
+});
+
+test('同名profile中的部分节流参数与继承的profile中的预设合并', async () => {
+  const configPath = await writeConfigFiles({
+    'perf.json': { extends: './base.json', profiles: { ci: { throttling: { rttMs: 10 } } } },
+    'base.json': { profiles: { ci: { throttling: 'cable' } } }
+  });
+  
+  const config = await loadConfigFile(configPath, 'ci', {});
+  assert.deepStrictEqual(config.throttling, { ...THROTTLING_PRESETS.cable.settings, rttMs: 10 });
+});
+
+test('预设名称覆盖继承的节流参数', async () => {
+  const configPath = await writeConfigFiles({
+    'perf.json': { extends: './base.json', profiles: { staging: { throttling: 'slow-3g' } } },
+    'base.json': { throttling: { rttMs: 10 } }
+  });
+  
+  assert.strictEqual((await loadConfigFile(configPath, 'staging', {})).throttling, 'slow-3g');
+});
@@ -0,0 +1,361 @@
+/**
+ * 配置模块
+ * 读取配置文件，处理继承和profile，展开环境变量引用，应用LH_*环境变量覆盖，并按config.schema.json校验配置
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { AuditConfig } from './audit';
+import { Logger } from './cli';
+import { isKnownDevice, suggestDevices } from './devices';
+import { THROTTLING_PRESETS } from './throttling';
+
+// 发布在项目根目录的配置Schema，配置文件可以通过$schema引用它获得编辑器自动补全
+export const CONFIG_SCHEMA_PATH = path.join(__dirname, '../config.schema.json');
+
+// 覆盖配置项的环境变量前缀，嵌套的配置项用双下划线分隔，如LH_THROTTLING__RTT_MS
+const ENV_OVERRIDE_PREFIX = 'LH_';
+
+// 字符串中引用环境变量的语法
+const ENV_REFERENCE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * 配置文件的内容，在测试配置之外可以继承其他配置文件并定义profile
+ */
+export interface ConfigFile extends AuditConfig {
+  $schema?: string;
+  extends?: string | string[]; // 继承的配置文件，路径相对于当前配置文件
+  profiles?: Record<string, AuditConfig>; // 命名的配置覆盖项，通过--profile选择
+}
+
+let configSchema: JsonSchema | null = null;
+let configValidator: ValidateFunction | null = null;
+
+/**
+ * 读取配置文件及其继承的配置文件，并应用指定的profile
+ * 字符串中的${ENV_VAR}引用会被替换为环境变量的值，未选择的profile中引用的环境变量可以不设置
+ */
+export async function loadConfigFile(configPath: string, profile?: string, env: NodeJS.ProcessEnv = process.env): Promise<AuditConfig> {
+  const { $schema, profiles = {}, ...fileConfig } = await readConfigChain(path.resolve(process.cwd(), configPath), []);
+  const config = interpolateEnv(fileConfig, env) as AuditConfig;
+  // 在应用profile之前校验，未选择的profile中的错误同样会被发现，其中未设置的环境变量引用保持原样
+  validateConfig({ ...config, profiles: interpolateEnv(profiles, env, ['profiles'], false) } as ConfigFile);
+  
+  if (!profile) return config;
+  
+  const overrides = profiles[profile];
+  if (!overrides) {
+    const available = Object.keys(profiles);
+    throw new Error(`配置文件中没有名为 ${profile} 的profile，可用的profile: ${available.length > 0 ? available.join(', ') : '无'}`);
+  }
+  if ('extends' in overrides || 'profiles' in overrides) {
+    throw new Error(`profile ${profile} 中不能使用extends或profiles`);
+  }
+  const expandedOverrides = interpolateEnv(overrides, env, ['profiles', profile]) as AuditConfig;
+  return mergeConfig(expandShorthands(config, expandedOverrides), expandedOverrides);
+}
+
+/**
+ * 读取配置文件，并依次合并其继承的配置文件，当前文件中的配置优先
+ * 环境变量引用在选择profile之后才展开
+ */
+async function readConfigChain(filePath: string, chain: string[]): Promise<ConfigFile> {
+  if (chain.includes(filePath)) {
+    throw new Error(`配置文件循环继承: ${[...chain, filePath].join(' -> ')}`);
+  }
+  if (!await fs.pathExists(filePath)) {
+    throw new Error(chain.length > 0
+      ? `配置文件 ${chain[chain.length - 1]} 继承的文件不存在: ${filePath}`
+      : `配置文件不存在: ${filePath}`);
+  }
+  
+  const data = await fs.readJSON(filePath) as ConfigFile;
+  const { extends: parents, ...own } = data;
+  
+  let merged: ConfigFile = {};
+  for (const parent of ([] as string[]).concat(parents || [])) {
+    const parentConfig = await readConfigChain(path.resolve(path.dirname(filePath), parent), [...chain, filePath]);
+    merged = mergeConfig(expandShorthands(merged, parentConfig), parentConfig);
+  }
+  return mergeConfig(expandShorthands(merged, own), own);
+}
+
+/**
+ * 覆盖项为对象而基础配置为简写形式时，先将基础配置中的简写展开为对象，使两者可以逐项合并
+ * 如继承的throttling为slow-3g时，profile中的{ cpuSlowdownMultiplier: 2 }只改变CPU节流；同名profile之间同样处理
+ */
+function expandShorthands<T extends Record<string, any>>(base: T, overrides: Record<string, any>): T {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!isPlainObject(value) || result[key] === undefined) continue;
+    
+    if (key === 'profiles' && isPlainObject(result.profiles)) {
+      result.profiles = Object.fromEntries(Object.entries(result.profiles).map(([name, profile]) => [
+        name,
+        isPlainObject(profile) && isPlainObject(value[name]) ? expandShorthands(profile, value[name]) : profile
+      ]));
+    } else if (!isPlainObject(result[key])) {
+      result[key] = expandShorthand(key, result[key]) || result[key];
+    }
+  }
+  return result as T;
+}
+
+/**
+ * 深度合并配置：对象逐项合并，数组和其他值直接替换，值为undefined的字段不覆盖
+ */
+export function mergeConfig<T extends Record<string, any>>(base: T, overrides: Record<string, any>): T {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? mergeConfig(result[key], value)
+      : value;
+  }
+  return result as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 展开配置中所有字符串里的${ENV_VAR}引用，引用了未设置的环境变量时抛出错误
+ * strict为false时未设置的环境变量引用保持原样
+ */
+export function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv = process.env, keyPath: Array<string | number> = [], strict: boolean = true): unknown {
+  if (typeof value === 'string') {
+    return value.replace(ENV_REFERENCE_PATTERN, (reference, name: string) => {
+      const envValue = env[name];
+      if (envValue === undefined) {
+        if (!strict) return reference;
+        throw new Error(`配置项 ${formatKeyPath(keyPath)} 引用的环境变量 ${name} 未设置`);
+      }
+      return envValue;
+    });
+  }
+  
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, env, [...keyPath, index], strict));
+  }
+  
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env, [...keyPath, key], strict)])
+    );
+  }
+  
+  return value;
+}
+
+/**
+ * 用LH_*环境变量覆盖配置项，返回新的配置
+ * 变量名按配置项名匹配，忽略大小写和下划线，如LH_TEST_COUNT对应testCount，LH_BUDGETS__SCORES__PERFORMANCE对应budgets.scores.performance
+ * 不对应任何配置项的LH_*变量（可能属于其他工具）输出警告后忽略
+ */
+export function applyEnvOverrides(config: AuditConfig, env: NodeJS.ProcessEnv = process.env, logger?: Logger): AuditConfig {
+  const result: Record<string, any> = structuredClone(config);
+  
+  const names = Object.keys(env).filter(name => name.startsWith(ENV_OVERRIDE_PREFIX)).sort();
+  for (const name of names) {
+    const target = resolveSchemaPath(name.slice(ENV_OVERRIDE_PREFIX.length).split('__'));
+    if (!target) {
+      logger?.warning(`环境变量 ${name} 不对应任何配置项，已忽略`);
+      continue;
+    }
+    
+    // 逐层创建嵌套的配置对象，简写形式的配置项先展开为对象
+    let parent = result;
+    target.keys.slice(0, -1).forEach((key, index) => {
+      if (parent[key] === undefined || parent[key] === null) {
+        parent[key] = {};
+      } else if (!isPlainObject(parent[key])) {
+        const expanded = expandShorthand(key, parent[key]);
+        if (!expanded) {
+          throw new Error(`环境变量 ${name} 无法覆盖 ${formatKeyPath(target.keys.slice(0, index + 1))} 中的配置项，其当前值 ${JSON.stringify(parent[key])} 不能展开为对象`);
+        }
+        parent[key] = expanded;
+      }
+      parent = parent[key];
+    });
+    parent[target.keys[target.keys.length - 1]] = parseEnvValue(env[name]!, target.schema);
+  }
+  
+  return result as AuditConfig;
+}
+
+/**
+ * 将简写形式的配置项展开为等价的对象形式，无法展开时返回null
+ * 节流预设展开为预设的参数，静态文件目录展开为{ dir }，adaptive的布尔值展开为使用默认值的对象
+ */
+function expandShorthand(key: string, value: unknown): Record<string, any> | null {
+  if (key === 'throttling' && typeof value === 'string') {
+    const preset = THROTTLING_PRESETS[value];
+    // 要求特定节流方式的预设（如none）无法用自定义参数表示
+    return preset && !preset.method ? { ...preset.settings } : null;
+  }
+  if (key === 'serve' && typeof value === 'string') {
+    return { dir: value };
+  }
+  if (key === 'adaptive' && typeof value === 'boolean') {
+    return {};
+  }
+  return null;
+}
+
+/**
+ * 按配置Schema校验配置，不符合时抛出包含每个问题位置的错误
+ */
+export function validateConfig(config: AuditConfig): void {
+  if (!configValidator) {
+    const ajv = new Ajv({ allErrors: true, allowUnionTypes: true, verbose: true });
+    // 设备名称需要是Playwright设备列表中的设备，列表随Playwright版本变化，因此不写在Schema的enum中
+    ajv.addKeyword({
+      keyword: 'playwrightDevice',
+      type: 'string',
+      schemaType: 'boolean',
+      validate: (enabled: boolean, name: string) => !enabled || isKnownDevice(name)
+    });
+    configValidator = ajv.compile(getConfigSchema());
+  }
+  
+  // 值为undefined的字段视为未设置
+  const data = JSON.parse(JSON.stringify(config));
+  if (configValidator(data)) return;
+  
+  // if/then的错误只是汇总了then中的具体错误，不单独显示
+  // 未选择的profile中未展开的环境变量引用无法检查格式，选择后会在最终配置中校验
+  const errors = (configValidator.errors || []).filter(error => error.keyword !== 'if' &&
+    !(error.keyword === 'pattern' && typeof error.data === 'string' && error.data.match(ENV_REFERENCE_PATTERN)));
+  if (errors.length === 0) return;
+  
+  const messages = [...new Set(errors.map(formatSchemaError))];
+  throw new Error(`配置无效:\n${messages.map(message => `  - ${message}`).join('\n')}`);
+}
+
+/**
+ * 读取配置Schema
+ */
+function getConfigSchema(): JsonSchema {
+  if (!configSchema) {
+    configSchema = fs.readJSONSync(CONFIG_SCHEMA_PATH) as JsonSchema;
+  }
+  return configSchema;
+}
+
+/**
+ * 展开Schema中指向definitions的$ref
+ */
+function resolveRef(schema: JsonSchema): JsonSchema {
+  if (typeof schema.$ref !== 'string') return schema;
+  const name = schema.$ref.replace('#/definitions/', '');
+  return { ...getConfigSchema().definitions[name], ...schema };
+}
+
+/**
+ * 将环境变量名中的各段匹配为Schema中的配置项，无法匹配时返回null
+ */
+function resolveSchemaPath(segments: string[]): { keys: string[]; schema: JsonSchema } | null {
+  const normalize = (name: string) => name.replace(/[-_]/g, '').toLowerCase();
+  
+  let schema = getConfigSchema();
+  const keys: string[] = [];
+  for (const segment of segments) {
+    const properties: Record<string, JsonSchema> = resolveRef(schema).properties || {};
+    const key = Object.keys(properties).find(name => normalize(name) === normalize(segment));
+    if (!key) return null;
+    
+    keys.push(key);
+    schema = resolveRef(properties[key]);
+  }
+  
+  return keys.length > 0 ? { keys, schema } : null;
+}
+
+/**
+ * 解析环境变量的值：字符串类型的配置项保持原样，其余按JSON解析（数字、布尔值、数组和对象）
+ */
+function parseEnvValue(value: string, schema: JsonSchema): unknown {
+  const types: string[] = ([] as string[]).concat(schema.type || []);
+  if (types.includes('string') && !/^\s*[[{]/.test(value)) {
+    return value;
+  }
+  
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * 将校验错误转换为带配置项路径的说明
+ */
+function formatSchemaError(error: ErrorObject): string {
+  const location = formatKeyPath(
+    error.instancePath.split('/').slice(1).map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+  );
+  
+  switch (error.keyword) {
+    case 'additionalProperties': {
+      const name: string = error.params.additionalProperty;
+      const known = Object.keys((error.parentSchema && error.parentSchema.properties) || {});
+      const suggestion = known.find(key => key.toLowerCase() === name.toLowerCase());
+      return `${location} 包含未知的配置项 "${name}"${suggestion ? `，是否应为 "${suggestion}"？` : ''}`;
+    }
+    case 'playwrightDevice': {
+      const suggestions = suggestDevices(String(error.data));
+      return `${location} 的值 "${error.data}" 不是已知的设备，可选值: Desktop, Mobile 或 Playwright设备列表中的名称` +
+        (suggestions.length > 0 ? `，是否为 ${suggestions.join(', ')}？` : '');
+    }
+    case 'enum':
+      return `${location} 的值 ${JSON.stringify(error.data)} 无效，可选值: ${error.params.allowedValues.join(', ')}`;
+    case 'type':
+      return `${location} 应为 ${String(error.params.type).split(',').join(' 或 ')} 类型，实际为 ${JSON.stringify(error.data)}`;
+    case 'minItems':
+      return `${location} 至少需要 ${error.params.limit} 项`;
+    case 'maxItems':
+      return `${location} 最多只能有 ${error.params.limit} 项`;
+    case 'minLength':
+      return error.params.limit === 1
+        ? `${location} 不能为空字符串`
+        : `${location} 的长度至少为 ${error.params.limit} 个字符`;
+    case 'maxLength':
+      return `${location} 的长度最多为 ${error.params.limit} 个字符`;
+    case 'minProperties':
+      return `${location} 至少需要 ${error.params.limit} 个配置项`;
+    case 'maxProperties':
+      return `${location} 最多只能有 ${error.params.limit} 个配置项`;
+    case 'const':
+      return `${location} 的值应为 ${JSON.stringify(error.params.allowedValue)}，实际为 ${JSON.stringify(error.data)}`;
+    case 'multipleOf':
+      return `${location} 应为 ${error.params.multipleOf} 的倍数，实际为 ${error.data}`;
+    case 'uniqueItems':
+      return `${location} 中第 ${error.params.j + 1} 项和第 ${error.params.i + 1} 项重复`;
+    case 'pattern':
+      return `${location} 的值 ${JSON.stringify(error.data)} 格式无效，应匹配 ${error.params.pattern}`;
+    case 'required':
+      return `${location} 缺少必填项 "${error.params.missingProperty}"`;
+    case 'minimum':
+    case 'maximum':
+    case 'exclusiveMinimum':
+    case 'exclusiveMaximum':
+      return `${location} 应 ${error.params.comparison} ${error.params.limit}，实际为 ${error.data}`;
+    default:
+      return `${location} ${error.message}`;
+  }
+}
+
+/**
+ * 将配置项路径格式化为urls[1].device的形式
+ */
+function formatKeyPath(keyPath: Array<string | number>): string {
+  if (keyPath.length === 0) return '配置';
+  return keyPath.reduce<string>((result, key) => {
+    if (typeof key === 'number' || /^\d+$/.test(key)) return `${result}[${key}]`;
+    return result ? `${result}.${key}` : key;
+  }, '');
+}
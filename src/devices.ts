@@ -0,0 +1,124 @@
+/**
+ * 设备模拟模块
+ * 将设备配置解析为视口、像素比和User-Agent，供Lighthouse和Playwright截图使用
+ */
+
+import { devices } from '@playwright/test';
+
+/**
+ * 自定义设备
+ */
+export interface CustomDevice {
+  name: string; // 在报告和历史数据中显示的设备名称
+  viewport: { width: number; height: number };
+  deviceScaleFactor?: number; // 默认为1
+  userAgent?: string; // 默认使用对应类型的Chrome设备的User-Agent
+  isMobile?: boolean; // 默认为false
+  hasTouch?: boolean; // 默认与isMobile相同
+}
+
+/**
+ * 设备配置：Desktop、Mobile、Playwright设备列表中的名称（如iPhone 13），或自定义设备
+ */
+export type DeviceConfig = string | CustomDevice;
+
+/**
+ * 解析后的设备参数
+ */
+export interface DeviceProfile {
+  name: string;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  userAgent: string;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+// Desktop和Mobile对应的Playwright设备
+const DEVICE_ALIASES: Record<string, string> = {
+  Desktop: 'Desktop Chrome',
+  Mobile: 'Pixel 5'
+};
+
+/**
+ * 判断设备名称是否可用：Desktop、Mobile或Playwright设备列表中的名称
+ */
+export function isKnownDevice(name: string): boolean {
+  return name in DEVICE_ALIASES || name in devices;
+}
+
+/**
+ * 查找与名称相近的Playwright设备，用于错误提示
+ */
+export function suggestDevices(name: string, limit: number = 5): string[] {
+  const keyword = name.toLowerCase().replace(/\s+/g, '');
+  return Object.keys(devices)
+    .filter(device => {
+      const candidate = device.toLowerCase().replace(/\s+/g, '');
+      return candidate.includes(keyword) || keyword.includes(candidate);
+    })
+    .slice(0, limit);
+}
+
+/**
+ * 将设备配置解析为设备参数，未指定时为Desktop
+ */
+export function resolveDevice(device: DeviceConfig = 'Desktop'): DeviceProfile {
+  if (typeof device !== 'string') {
+    const isMobile = device.isMobile || false;
+    const fallback = devices[DEVICE_ALIASES[isMobile ? 'Mobile' : 'Desktop']];
+    return {
+      name: device.name,
+      viewport: { ...device.viewport },
+      deviceScaleFactor: device.deviceScaleFactor || 1,
+      userAgent: device.userAgent || fallback.userAgent,
+      isMobile,
+      hasTouch: device.hasTouch ?? isMobile
+    };
+  }
+  
+  const descriptor = devices[DEVICE_ALIASES[device] || device];
+  if (!descriptor) {
+    const suggestions = suggestDevices(device);
+    throw new Error(`未知的设备: ${device}${suggestions.length > 0 ? `，是否为 ${suggestions.join(', ')}？` : ''}`);
+  }
+  
+  return {
+    name: device,
+    viewport: { ...descriptor.viewport },
+    deviceScaleFactor: descriptor.deviceScaleFactor,
+    userAgent: descriptor.userAgent,
+    isMobile: descriptor.isMobile,
+    hasTouch: descriptor.hasTouch
+  };
+}
+
+/**
+ * 获取设备对应的Lighthouse模拟设置
+ */
+export function getLighthouseEmulation(profile: DeviceProfile) {
+  return {
+    formFactor: profile.isMobile ? 'mobile' : 'desktop',
+    screenEmulation: {
+      mobile: profile.isMobile,
+      width: profile.viewport.width,
+      height: profile.viewport.height,
+      deviceScaleFactor: profile.deviceScaleFactor,
+      disabled: false
+    },
+    emulatedUserAgent: profile.userAgent
+  };
+}
+
+/**
+ * 获取设备对应的Playwright浏览器上下文选项
+ */
+export function getContextOptions(profile: DeviceProfile) {
+  return {
+    viewport: profile.viewport,
+    deviceScaleFactor: profile.deviceScaleFactor,
+    userAgent: profile.userAgent,
+    isMobile: profile.isMobile,
+    hasTouch: profile.hasTouch
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * 页面发现模块
+ * 通过sitemap.xml或同源链接爬取自动发现需要测试的页面
+ */
+
+import { Browser, Page } from '@playwright/test';
+import { Logger } from './cli';
+import { applyRequestSettings, RequestSettings } from './requestSettings';
+import { StorageState } from './setupScript';
+
+export interface DiscoveryConfig {
+  sitemap?: string; // sitemap.xml地址
+  crawl?: string; // 链接爬取的起始URL
+  depth?: number; // 链接爬取深度，起始页为第0层
+  include?: string[]; // 仅保留匹配这些glob模式的页面
+  exclude?: string[]; // 排除匹配这些glob模式的页面
+  maxPages?: number; // 最多发现的页面数量
+}
+
+const DEFAULT_CRAWL_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 50;
+// sitemap索引最多嵌套的层数，避免循环引用
+const MAX_SITEMAP_NESTING = 3;
+// 链接指向这些扩展名的文件时不是可测试的页面
+const NON_HTML_EXTENSIONS = new Set([
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'csv', 'txt', 'xml', 'json',
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'svg', 'ico', 'bmp',
+  'mp3', 'mp4', 'wav', 'ogg', 'webm', 'mov', 'avi',
+  'zip', 'gz', 'tar', 'rar', '7z', 'exe', 'dmg', 'apk',
+  'js', 'css', 'woff', 'woff2', 'ttf'
+]);
+
+/**
+ * 根据配置发现需要测试的页面
+ * sitemap和爬取的页面都通过浏览器请求，与测试使用相同的HTTP头、Cookie和主机映射
+ */
+export async function discoverUrls(
+  config: DiscoveryConfig,
+  browser: Browser,
+  logger: Logger,
+  storageState?: StorageState,
+  requestSettings: RequestSettings = {}
+): Promise<string[]> {
+  const maxPages = config.maxPages || DEFAULT_MAX_PAGES;
+  const discovered = new Set<string>();
+  
+  const accept = (url: string): boolean => {
+    if (discovered.size >= maxPages || discovered.has(url)) return false;
+    if (!matchesFilters(url, config.include, config.exclude)) return false;
+    discovered.add(url);
+    return true;
+  };
+  
+  // 使用前置脚本的登录状态，以便读取需要登录的sitemap和页面
+  const context = await browser.newContext({ storageState });
+  
+  try {
+    // 未指定域名的Cookie设置在爬取起始URL（或sitemap）所在的域名上
+    const entryUrl = config.crawl || config.sitemap;
+    if (entryUrl) {
+      await applyRequestSettings(context, requestSettings, entryUrl);
+    }
+    const page = await context.newPage();
+    
+    if (config.sitemap) {
+      logger.info(`从sitemap发现页面: ${config.sitemap}`);
+      const sitemapUrls = await readSitemap(page, config.sitemap, logger);
+      for (const url of sitemapUrls) {
+        const normalized = tryNormalizeUrl(url);
+        if (!normalized) {
+          logger.warning(`跳过sitemap中无效的URL: ${url}`);
+        } else if (isHtmlPage(normalized)) {
+          accept(normalized);
+        }
+      }
+      logger.debug(`sitemap中共有 ${sitemapUrls.length} 个页面`);
+    }
+    
+    if (config.crawl && discovered.size < maxPages) {
+      const depth = config.depth !== undefined ? config.depth : DEFAULT_CRAWL_DEPTH;
+      logger.info(`从 ${config.crawl} 开始爬取同源链接（深度 ${depth}）...`);
+      await crawlLinks(config.crawl, depth, page, accept, () => discovered.size >= maxPages, logger);
+    }
+  } finally {
+    await context.close();
+  }
+  
+  if (discovered.size >= maxPages) {
+    logger.warning(`已达到最大页面数量 ${maxPages}，其余页面将被忽略`);
+  }
+  
+  logger.success(`共发现 ${discovered.size} 个待测试页面`);
+  return Array.from(discovered);
+}
+
+/**
+ * 读取sitemap.xml，支持sitemap索引文件
+ */
+async function readSitemap(page: Page, sitemapUrl: string, logger: Logger, nesting: number = 0): Promise<string[]> {
+  const response = await page.goto(sitemapUrl);
+  if (!response || !response.ok()) {
+    throw new Error(`读取sitemap失败: ${sitemapUrl} (HTTP ${response ? response.status() : '无响应'})`);
+  }
+  
+  const xml = await response.text();
+  const locations = Array.from(xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/g), match => decodeXmlEntities(match[1]));
+  
+  // sitemap索引文件中的<loc>指向子sitemap
+  if (/<sitemapindex[\s>]/.test(xml)) {
+    if (nesting >= MAX_SITEMAP_NESTING) {
+      logger.warning(`sitemap嵌套层数过多，已跳过: ${sitemapUrl}`);
+      return [];
+    }
+    
+    const urls: string[] = [];
+    for (const location of locations) {
+      try {
+        urls.push(...await readSitemap(page, location, logger, nesting + 1));
+      } catch (error) {
+        logger.error(`读取子sitemap ${location} 失败:`, error as Error);
+      }
+    }
+    return urls;
+  }
+  
+  return locations;
+}
+
+/**
+ * 使用Playwright按广度优先爬取同源链接
+ */
+async function crawlLinks(
+  startUrl: string,
+  maxDepth: number,
+  page: Page,
+  accept: (url: string) => boolean,
+  isFull: () => boolean,
+  logger: Logger
+): Promise<void> {
+  const origin = new URL(startUrl).origin;
+  const visited = new Set<string>();
+  let queue = [normalizeUrl(startUrl)];
+  
+  for (let depth = 0; depth <= maxDepth && queue.length > 0 && !isFull(); depth++) {
+    const nextQueue: string[] = [];
+    
+    for (const url of queue) {
+      if (isFull()) break;
+      if (visited.has(url)) continue;
+      visited.add(url);
+      
+      // 不满足过滤条件的页面仍会被访问以继续发现链接，但不会加入测试列表
+      accept(url);
+      if (depth === maxDepth) continue;
+      
+      try {
+        await page.goto(url, { waitUntil: 'domcontentloaded' });
+        const hrefs = await page.$$eval('a[href]', anchors => anchors.map(anchor => (anchor as HTMLAnchorElement).href));
+        
+        for (const href of hrefs) {
+          if (!href.startsWith('http')) continue;
+          const link = tryNormalizeUrl(href);
+          // 图片、PDF等文件不是页面，既不测试也不继续爬取
+          if (link && new URL(link).origin === origin && isHtmlPage(link) && !visited.has(link)) {
+            nextQueue.push(link);
+          }
+        }
+        logger.debug(`[深度 ${depth}] ${url} 发现 ${hrefs.length} 个链接`);
+      } catch (error) {
+        logger.warning(`爬取 ${url} 失败: ${(error as Error).message}`);
+      }
+    }
+    
+    queue = nextQueue;
+  }
+}
+
+/**
+ * 规范化URL：去掉锚点，便于去重
+ */
+function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+/**
+ * 规范化URL，无效的URL返回null
+ */
+function tryNormalizeUrl(url: string): string | null {
+  try {
+    return normalizeUrl(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 根据路径的扩展名判断URL是否可能是HTML页面，没有扩展名或扩展名未知时视为页面
+ */
+function isHtmlPage(url: string): boolean {
+  const match = new URL(url).pathname.match(/\.([a-z0-9]+)$/i);
+  return !match || !NON_HTML_EXTENSIONS.has(match[1].toLowerCase());
+}
+
+/**
+ * 检查URL是否满足include/exclude过滤条件
+ * 包含"://"的模式匹配完整URL，否则匹配路径部分
+ */
+function matchesFilters(url: string, include?: string[], exclude?: string[]): boolean {
+  const matches = (pattern: string) => {
+    const target = pattern.includes('://') ? url : new URL(url).pathname;
+    return globToRegExp(pattern).test(target);
+  };
+  
+  if (include && include.length > 0 && !include.some(matches)) return false;
+  if (exclude && exclude.some(matches)) return false;
+  return true;
+}
+
+/**
+ * 将glob模式转换为正则表达式
+ * 支持 ** (任意字符)、* (除"/"外的任意字符) 和 ? (单个字符)
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 解码XML实体
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * 获取URL的路径前缀（第一级路径），用于在汇总报告中分组
+ */
+export function getPathPrefix(url: string): string {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+  return segments.length > 0 ? `/${segments[0]}` : '/';
+}
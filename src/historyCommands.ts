@@ -0,0 +1,275 @@
+/**
+ * 离线命令模块
+ * compare、trend、report和baseline子命令只读取保存的测试结果生成报告，不启动浏览器
+ */
+
+import * as fs from 'fs-extra';
+import { Logger } from './cli';
+import { WebVitalsResult } from './webVitals';
+import { generateComparisonReport, generateMultiComparisonReport } from './comparisonReporter';
+import { generateDetailedReport, generateTrendReport } from './reportGenerator';
+import { loadHistory, loadWebVitalsResults, readHistoryFile, selectLatest, parseDate, HistoryFilter, HistoryRecord } from './historyStore';
+import { getMedianWebVitals, loadBlessedBaselines, saveBlessedBaseline, removeBlessedBaselines } from './regression';
+
+/**
+ * 离线命令读写的报告目录
+ */
+export interface ReportDirs {
+  outputDir: string;
+  webVitalsDir: string;
+  historyDir: string;
+  baselinesFile: string;
+}
+
+// 按URL、设备和网络条件选择历史数据的命令行选项
+interface HistorySelectOptions {
+  url?: string;
+  device?: string;
+  throttling?: string;
+}
+
+export interface CompareCommandOptions extends HistorySelectOptions {
+  files?: string[];
+  before?: string;
+  until?: string;
+}
+
+export interface ReportCommandOptions extends HistorySelectOptions {
+  files?: string[];
+  history?: string;
+}
+
+export interface BaselineCommandOptions extends HistorySelectOptions {
+  action: 'set' | 'show' | 'clear';
+  file?: string;
+  all?: boolean;
+}
+
+/**
+ * 根据历史数据文件或选择条件找到测试结果，生成对比报告
+ * 多于两个文件时生成排行榜
+ */
+export async function compareHistory(options: CompareCommandOptions, dirs: ReportDirs, logger: Logger): Promise<void> {
+  const files = options.files || [];
+  
+  // 指定了多于两个文件时生成排行榜
+  if (files.length > 2) {
+    const records = await Promise.all(files.map(readHistoryFile));
+    const leaderboardPath = await generateMultiComparisonReport(
+      records.map(record => ({ ...record, webVitals: getMedianWebVitals(record) })),
+      dirs.outputDir
+    );
+    logger.success(`排行榜报告已生成: ${leaderboardPath}`);
+    return;
+  }
+  
+  // 未全部指定文件时，从同一URL和设备的历史数据中选择
+  const [baselineFile, currentFile] = files;
+  let history: HistoryRecord[] = [];
+  if (!baselineFile || !currentFile) {
+    const filter = await resolveHistoryFilter(options, dirs);
+    history = await loadHistory(dirs.historyDir, filter, logger);
+    logger.info(`找到 ${history.length} 条 ${formatRecordName(filter)} 的历史数据`);
+  }
+  
+  const current = currentFile
+    ? await readHistoryFile(currentFile)
+    : selectLatest(history, options.until ? parseDate(options.until) : undefined);
+  if (!current) {
+    throw new Error('没有符合条件的当前结果');
+  }
+  
+  // 未指定基准时间时，使用当前结果之前的最近一次结果作为基准
+  const baseline = baselineFile
+    ? await readHistoryFile(baselineFile)
+    : selectLatest(history, options.before ? parseDate(options.before) : new Date(current.timestamp));
+  if (!baseline) {
+    throw new Error('没有符合条件的基准结果');
+  }
+  
+  logger.info(`基准结果: ${baseline.url} (${baseline.device}, ${baseline.timestamp})`);
+  logger.info(`当前结果: ${current.url} (${current.device}, ${current.timestamp})`);
+  
+  // 与实时对比一致，Web Vitals使用多次测试的中位数
+  const comparisonReportPath = await generateComparisonReport(
+    { ...baseline, webVitals: getMedianWebVitals(baseline) },
+    { ...current, webVitals: getMedianWebVitals(current) },
+    dirs.outputDir
+  );
+  logger.success(`对比报告已生成: ${comparisonReportPath}`);
+}
+
+/**
+ * 根据历史数据重新生成趋势报告
+ * 未指定URL时为历史数据中每个URL、设备和网络条件分别生成
+ */
+export async function rebuildTrendReports(options: HistorySelectOptions, dirs: ReportDirs, logger: Logger): Promise<void> {
+  const history = await loadHistory(dirs.historyDir, { url: options.url, device: options.device, throttling: options.throttling }, logger);
+  
+  // 按URL、设备和网络条件分组，矩阵测试的每种组合各生成一份趋势报告
+  const groups = new Map<string, HistoryRecord[]>();
+  for (const record of history) {
+    const key = `${record.device} ${record.throttling || ''} ${record.url}`;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  
+  let generated = 0;
+  for (const records of groups.values()) {
+    const name = formatRecordName(records[0]);
+    if (records.length < 2) {
+      logger.warning(`${name} 只有 ${records.length} 条历史数据，跳过趋势报告`);
+      continue;
+    }
+    
+    const trendReportPath = await generateTrendReport(records, dirs.outputDir);
+    logger.success(`${name} 的趋势报告已生成: ${trendReportPath}`);
+    generated++;
+  }
+  
+  if (generated === 0) {
+    throw new Error('没有足够的历史数据生成趋势报告');
+  }
+}
+
+/**
+ * 根据保存的Web Vitals数据重新生成详细报告
+ * 得分和统计信息取自同一次测试保存的历史数据
+ */
+export async function regenerateDetailedReport(options: ReportCommandOptions, dirs: ReportDirs, logger: Logger): Promise<void> {
+  const files = options.files || [];
+  let webVitalsResults: WebVitalsResult[];
+  let record: HistoryRecord | null;
+  
+  if (files.length > 0) {
+    webVitalsResults = await Promise.all(files.map(file => fs.readJSON(file) as Promise<WebVitalsResult>));
+    webVitalsResults.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    
+    // 历史数据在所有测试完成后保存，取最后一次测试之后最早的一条
+    const { url, device, throttling, timestamp } = webVitalsResults[webVitalsResults.length - 1];
+    const history = await loadHistory(dirs.historyDir, { url, device, throttling }, logger);
+    record = options.history
+      ? await readHistoryFile(options.history)
+      : history.find(item => new Date(item.timestamp).getTime() >= new Date(timestamp).getTime()) || null;
+  } else {
+    // 未指定文件时使用最近一次测试，Web Vitals数据取上一次历史数据之后的单次测试
+    const filter = await resolveHistoryFilter(options, dirs);
+    const history = await loadHistory(dirs.historyDir, filter, logger);
+    record = options.history ? await readHistoryFile(options.history) : selectLatest(history);
+    if (!record) {
+      throw new Error(`没有 ${formatRecordName(filter)} 的历史数据`);
+    }
+    
+    const end = new Date(record.timestamp).getTime();
+    const previous = selectLatest(history, new Date(record.timestamp));
+    const start = previous ? new Date(previous.timestamp).getTime() : 0;
+    webVitalsResults = (await loadWebVitalsResults(dirs.webVitalsDir, { url: record.url, device: record.device, throttling: record.throttling }))
+      .filter(result => {
+        const time = new Date(result.timestamp).getTime();
+        return time > start && time <= end;
+      });
+  }
+  
+  if (webVitalsResults.length === 0) {
+    throw new Error('没有可用的Web Vitals数据');
+  }
+  if (!record) {
+    logger.warning('未找到对应的历史数据，报告中不包含得分');
+  }
+  
+  const { url, device, throttling } = webVitalsResults[0];
+  logger.info(`使用 ${webVitalsResults.length} 次测试的Web Vitals数据: ${formatRecordName({ url, device, throttling })}`);
+  
+  const detailedReportPath = await generateDetailedReport(record || { url, device, throttling, scores: {} }, webVitalsResults, dirs.outputDir);
+  logger.success(`详细报告已生成: ${detailedReportPath}`);
+}
+
+/**
+ * 管理回归检查使用的基准结果
+ */
+export async function manageBaseline(options: BaselineCommandOptions, dirs: ReportDirs, logger: Logger): Promise<void> {
+  switch (options.action) {
+    case 'set': {
+      // 未指定文件时使用最近一次测试结果
+      let record: HistoryRecord | null;
+      if (options.file) {
+        record = await readHistoryFile(options.file);
+      } else {
+        const filter = await resolveHistoryFilter(options, dirs);
+        record = selectLatest(await loadHistory(dirs.historyDir, filter, logger));
+      }
+      if (!record) {
+        throw new Error('没有可设置为基准的测试结果');
+      }
+      
+      await saveBlessedBaseline(dirs.baselinesFile, record);
+      logger.success(`已将 ${formatRecordName(record)}（${record.timestamp}）设置为基准`);
+      break;
+    }
+    
+    case 'show': {
+      const records = Object.values(await loadBlessedBaselines(dirs.baselinesFile))
+        .filter(record => matchesFilter(record, options));
+      if (records.length === 0) {
+        logger.info('尚未设置基准结果');
+        return;
+      }
+      
+      logger.table(records.map(record => ({
+        URL: record.url,
+        设备: record.device,
+        网络: record.throttling || '-',
+        测试时间: record.timestamp,
+        性能得分: record.scores.performance !== undefined ? record.scores.performance.toFixed(1) : 'N/A'
+      })), ['URL', '设备', '网络', '测试时间', '性能得分']);
+      break;
+    }
+    
+    case 'clear': {
+      if (!options.url && !options.all) {
+        throw new Error('请使用--url指定要清除的基准，或使用--all清除全部基准');
+      }
+      
+      const removed = await removeBlessedBaselines(dirs.baselinesFile, record => !!options.all || matchesFilter(record, options));
+      logger.success(`已清除 ${removed.length} 个基准结果`);
+      break;
+    }
+  }
+}
+
+/**
+ * 解析选择历史数据的条件，未指定URL时使用最近一次测试的URL、设备和网络条件
+ * 指定了URL但未指定网络条件时，使用该URL和设备最近一次测试的网络条件，避免混入矩阵测试中其他网络条件的结果
+ */
+async function resolveHistoryFilter(options: HistorySelectOptions, dirs: ReportDirs): Promise<HistoryFilter & { url: string; device: string }> {
+  if (options.url) {
+    const device = options.device || 'Desktop';
+    if (options.throttling) {
+      return { url: options.url, device, throttling: options.throttling };
+    }
+    
+    const latestForUrl = selectLatest(await loadHistory(dirs.historyDir, { url: options.url, device }));
+    return { url: options.url, device, throttling: latestForUrl ? latestForUrl.throttling : undefined };
+  }
+  
+  const latest = selectLatest(await loadHistory(dirs.historyDir, { device: options.device, throttling: options.throttling }));
+  if (!latest) {
+    throw new Error('没有历史数据，请先运行测试');
+  }
+  return { url: latest.url, device: latest.device, throttling: latest.throttling };
+}
+
+/**
+ * 判断测试结果是否符合命令行中的URL、设备和网络条件
+ */
+function matchesFilter(record: HistoryRecord, options: HistorySelectOptions): boolean {
+  return (!options.url || record.url === options.url)
+    && (!options.device || record.device === options.device)
+    && (!options.throttling || record.throttling === options.throttling);
+}
+
+/**
+ * 在日志中显示测试结果对应的URL、设备和网络条件
+ */
+function formatRecordName(record: HistoryFilter): string {
+  return `${record.url} (${[record.device, record.throttling].filter(Boolean).join(', ')})`;
+}
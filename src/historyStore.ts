@@ -0,0 +1,107 @@
+/**
+ * 历史数据模块
+ * 读取reports/history中保存的测试结果，并按URL、设备和时间选择记录
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { WebVitalsMetrics, WebVitalsResult } from './webVitals';
+import { RunStats } from './statistics';
+import { Logger } from './cli';
+
+/**
+ * 保存在历史数据中的测试结果
+ */
+export interface HistoryRecord {
+  url: string;
+  device: string;
+  throttling?: string; // 节流预设名称，早期的记录中没有
+  timestamp: string;
+  scores: Record<string, number>;
+  webVitals: WebVitalsMetrics;
+  stats?: RunStats;
+}
+
+export interface HistoryFilter {
+  url?: string;
+  device?: string;
+  throttling?: string; // 没有记录节流预设的早期记录视为符合
+}
+
+/**
+ * 读取历史数据目录中符合条件的记录，按时间升序返回
+ */
+export async function loadHistory<T extends HistoryRecord = HistoryRecord>(historyDir: string, filter: HistoryFilter = {}, logger?: Logger): Promise<T[]> {
+  if (!await fs.pathExists(historyDir)) return [];
+  
+  const records: T[] = [];
+  for (const file of await fs.readdir(historyDir)) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const data: T = await fs.readJSON(path.join(historyDir, file));
+      if (filter.url && data.url !== filter.url) continue;
+      if (filter.device && data.device !== filter.device) continue;
+      if (filter.throttling && data.throttling && data.throttling !== filter.throttling) continue;
+      records.push(data);
+    } catch (error) {
+      logger?.error(`读取历史数据文件 ${file} 失败:`, error as Error);
+    }
+  }
+  
+  return records.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * 读取Web Vitals数据目录中符合条件的单次测试结果，按时间升序返回
+ */
+export async function loadWebVitalsResults(webVitalsDir: string, filter: HistoryFilter = {}): Promise<WebVitalsResult[]> {
+  if (!await fs.pathExists(webVitalsDir)) return [];
+  
+  const results: WebVitalsResult[] = [];
+  for (const file of await fs.readdir(webVitalsDir)) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const data: WebVitalsResult = await fs.readJSON(path.join(webVitalsDir, file));
+      if (filter.url && data.url !== filter.url) continue;
+      if (filter.device && data.device !== filter.device) continue;
+      if (filter.throttling && data.throttling && data.throttling !== filter.throttling) continue;
+      results.push(data);
+    } catch {
+      // 忽略无法解析的文件
+    }
+  }
+  
+  return results.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * 读取单个历史数据文件
+ */
+export async function readHistoryFile(filePath: string): Promise<HistoryRecord> {
+  const resolvedPath = path.resolve(process.cwd(), filePath);
+  if (!await fs.pathExists(resolvedPath)) {
+    throw new Error(`历史数据文件不存在: ${resolvedPath}`);
+  }
+  return await fs.readJSON(resolvedPath);
+}
+
+/**
+ * 选出早于指定时间的最近一条记录，未指定时间时返回最近一条，没有时返回null
+ */
+export function selectLatest<T extends HistoryRecord>(records: T[], before?: Date): T | null {
+  const candidates = before
+    ? records.filter(record => new Date(record.timestamp).getTime() < before.getTime())
+    : records;
+  return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+}
+
+/**
+ * 解析命令行中的日期参数
+ */
+export function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`无效的日期: ${value}`);
+  }
+  return date;
+}
@@ -0,0 +1,30 @@
+/**
+ * 主机映射模块
+ * 将主机名映射到指定的IP地址，转换为Chrome的--host-resolver-rules参数，无需修改DNS即可在正式域名下测试新的后端
+ */
+
+/**
+ * 主机名到IP地址（或其他主机名）的映射，主机名可以使用*通配符，如 { "www.example.com": "10.0.0.5" }
+ */
+export type HostMap = Record<string, string>;
+
+/**
+ * 转换为Chrome的主机解析规则，如 MAP www.example.com 10.0.0.5, MAP *.cdn.example.com 10.0.0.6
+ */
+export function getHostResolverRules(hostMap: HostMap): string {
+  return Object.entries(hostMap).map(([host, target]) => `MAP ${host} ${target}`).join(', ');
+}
+
+/**
+ * 获取启动Chrome时附加的参数，没有配置映射时返回空数组
+ */
+export function getHostResolverArgs(hostMap?: HostMap): string[] {
+  return hostMap && Object.keys(hostMap).length > 0 ? [`--host-resolver-rules=${getHostResolverRules(hostMap)}`] : [];
+}
+
+/**
+ * 格式化主机映射用于日志和报告，如 www.example.com → 10.0.0.5
+ */
+export function formatHostMap(hostMap: HostMap): string[] {
+  return Object.entries(hostMap).map(([host, target]) => `${host} → ${target}`);
+}
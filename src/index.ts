@@ -1,472 +1,505 @@
 // @ts-nocheck 忽略整个文件的类型检查问题
-import { chromium, devices } from '@playwright/test';
-// 移除静态导入，改为后面使用动态导入
-// import lighthouse from 'lighthouse';
-import * as chromeLauncher from 'chrome-launcher';
-import * as fs from 'fs-extra';
-import * as path from 'path';
 import * as yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { extractWebVitals, WebVitalsResult } from './webVitals';
-import { generateDetailedReport, generateTrendReport } from './reportGenerator';
-import { generateComparisonReport } from './comparisonReporter';
-import { createCLI, LogLevel, formatScore, formatWebVital } from './cli';
+import { audit, prepareOutputDirs, resolveConfig, AuditConfig } from './audit';
+import { loadConfigFile, applyEnvOverrides, validateConfig } from './config';
+import { compareHistory, rebuildTrendReports, regenerateDetailedReport, manageBaseline } from './historyCommands';
+import { createCLI, LogLevel, Logger } from './cli';
+import { THROTTLING_PRESETS } from './throttling';
+import { CookieConfig } from './requestSettings';
 
-// Lighthouse结果类型定义
-interface LighthouseResult {
-  report: string;
-  lhr: {
-    categories: {
-      [key: string]: {
-        score: number;
-      };
-    };
-    audits: {
-      [key: string]: {
-        id: string;
-        title: string;
-        description: string;
-        score: number | null;
-        displayValue?: string;
-        details?: any;
-      };
-    };
-  };
-}
+// 供其他Node.js程序调用的接口
+export { audit, resolveConfig, DEFAULT_CONFIG } from './audit';
+export type {
+  AuditConfig,
+  AuditOptions,
+  AuditProgress,
+  AuditResult,
+  UrlAuditResult,
+  RunResult,
+  AccessibilityIssue,
+  LighthouseRunInfo,
+  MatrixConfig,
+  TestConfig,
+  TestResult,
+  UrlConfig
+} from './audit';
+export type { WebVitalsMetrics, WebVitalsResult } from './webVitals';
+export type { FlowRunResult } from './userFlow';
+export type { ThrottlingConfig, ThrottlingMethod, ThrottlingSettings } from './throttling';
+export type { LighthouseSettings } from './lighthouseSettings';
+export type { CookieConfig, RequestSettings } from './requestSettings';
+export type { ThirdPartyConfig, ThirdPartyImpact } from './thirdParty';
+export type { ServeConfig } from './staticServer';
+export type { HostMap } from './hostMap';
+export type { ChromeConfig } from './chrome';
+export { loadConfigFile, mergeConfig, applyEnvOverrides, validateConfig } from './config';
+export { Logger, LogLevel } from './cli';
 
-// 测试配置
-interface TestConfig {
-  url: string;
-  testCount: number;
-  categories: string[];
-  device?: string;
-  throttling?: {
-    cpuSlowdownMultiplier: number;
-    downloadThroughputKbps: number;
-    uploadThroughputKbps: number;
-    rttMs: number;
-  };
-  compareUrl?: string; // 用于对比的URL
-  saveHistory?: boolean; // 是否保存历史数据用于趋势分析
-}
-
-async function runLighthouseTest() {
+async function main() {
   // 创建CLI界面
-  const { logger, progress } = createCLI();
+  const cli = createCLI();
+  const { logger } = cli;
   
-  // 解析命令行参数
-  const parser = yargs
-    .command('$0', '运行Lighthouse测试')
-    .option('url', {
+  // 离线命令按URL、设备和网络条件选择历史数据的选项
+  const historyOptions = {
+    url: {
       alias: 'u',
       type: 'string',
-      description: '要测试的网站URL',
-      default: 'https://playwright.dev'
-    })
-    .option('count', {
-      alias: 'c',
-      type: 'number',
-      description: '测试次数',
-      default: 5
-    })
-    .option('device', {
+      description: '网站URL，默认使用最近一次测试的URL'
+    },
+    device: {
       alias: 'd',
       type: 'string',
-      description: '模拟设备类型',
-      choices: ['Mobile', 'Desktop'],
-      default: 'Desktop'
-    })
-    .option('config', {
+      description: '设备类型，指定URL时默认Desktop'
+    },
+    throttling: {
       type: 'string',
-      description: '配置文件路径'
-    })
-    .option('compare', {
+      description: '网络节流预设，用于选择矩阵测试中某种网络条件的结果'
+    }
+  };
+  
+  // 离线命令读取的报告目录，与测试时的outputDir配置相同
+  const outputDirOptions = {
+    'output-dir': {
       type: 'string',
-      description: '用于对比的URL'
-    })
+      description: '报告目录，默认为项目下的reports目录'
+    },
+    config: {
+      type: 'string',
+      description: '从配置文件（及LH_OUTPUT_DIR环境变量）读取outputDir'
+    },
+    profile: {
+      type: 'string',
+      description: '使用配置文件中的profile'
+    }
+  };
+  
+  // 解析命令行参数，每个子命令有各自的选项和帮助信息
+  const parser = yargs
+    .command(['run', '$0'], '运行Lighthouse测试', command => command
+      .option('url', {
+        alias: 'u',
+        type: 'string',
+        description: '要测试的网站URL，默认为https://playwright.dev，使用--serve时可以是相对路径，默认为服务器首页'
+      })
+      .option('count', {
+        alias: 'c',
+        type: 'number',
+        description: '测试次数',
+        default: 5
+      })
+      .option('device', {
+        alias: 'd',
+        type: 'string',
+        description: '模拟设备：Mobile、Desktop或Playwright设备名称（如"iPhone 13"）',
+        default: 'Desktop'
+      })
+      .option('throttling', {
+        type: 'string',
+        description: '网络节流预设，默认slow-4g',
+        choices: Object.keys(THROTTLING_PRESETS)
+      })
+      .option('throttling-method', {
+        type: 'string',
+        description: '节流方式：simulate为模拟计算，devtools为在浏览器中实际限速，provided为不节流',
+        choices: ['simulate', 'devtools', 'provided']
+      })
+      .option('device-matrix', {
+        type: 'array',
+        string: true,
+        description: '依次在多种设备下测试并生成矩阵报告，可与--throttling-matrix组合，如Mobile Desktop'
+      })
+      .option('throttling-matrix', {
+        type: 'array',
+        string: true,
+        description: '依次在多种网络节流预设下测试并生成矩阵报告，如slow-3g fast-4g cable',
+        choices: Object.keys(THROTTLING_PRESETS)
+      })
+      .option('header', {
+        type: 'array',
+        string: true,
+        description: '每个请求附加的HTTP头，格式为"名称: 值"，可指定多个'
+      })
+      .option('cookie', {
+        type: 'array',
+        string: true,
+        description: '测试前设置的Cookie，格式为"名称=值"，可指定多个'
+      })
+      .option('block-url', {
+        type: 'array',
+        string: true,
+        description: '屏蔽匹配该模式的请求（*匹配任意字符），可指定多个'
+      })
+      .option('host-map', {
+        type: 'array',
+        string: true,
+        description: '将主机名映射到指定的IP地址，格式为"主机名=IP"，可指定多个，如www.example.com=10.0.0.5'
+      })
+      .option('chrome-path', {
+        type: 'string',
+        description: 'Chrome可执行文件路径，playwright表示使用Playwright自带的Chromium'
+      })
+      .option('chrome-flag', {
+        type: 'array',
+        string: true,
+        description: '附加的Chrome启动参数，可指定多个，如--chrome-flag=--disable-extensions'
+      })
+      .option('cdp-url', {
+        type: 'string',
+        description: '连接已运行Chrome的远程调试地址（如http://127.0.0.1:9222），不再启动Chrome'
+      })
+      .option('third-party', {
+        type: 'array',
+        string: true,
+        description: '第三方域名分组，格式为"组名=域名1,域名2"，每个URL还会在屏蔽每组域名的情况下测试并生成对比报告'
+      })
+      .option('serve', {
+        type: 'string',
+        description: '在本地提供该静态文件目录（如前端构建产物）并对其测试，测试结束后关闭服务器'
+      })
+      .option('serve-port', {
+        type: 'number',
+        description: '静态文件服务器的端口，默认为8080'
+      })
+      .option('serve-spa', {
+        type: 'boolean',
+        description: '未找到的页面返回index.html（单页应用回退），默认开启，--no-serve-spa关闭'
+      })
+      .option('config', {
+        type: 'string',
+        description: '配置文件路径'
+      })
+      .option('profile', {
+        type: 'string',
+        description: '使用配置文件中的profile覆盖配置（如staging）'
+      })
+      .option('print-config', {
+        type: 'boolean',
+        description: '输出合并后的最终配置并退出，不运行测试'
+      })
+      .option('sitemap', {
+        type: 'string',
+        description: '从sitemap.xml发现待测试页面'
+      })
+      .option('crawl', {
+        type: 'string',
+        description: '从指定URL开始爬取同源链接发现待测试页面'
+      })
+      .option('setup-script', {
+        type: 'string',
+        description: '测试前执行的Playwright脚本路径（如登录）'
+      })
+      .option('flow', {
+        type: 'array',
+        string: true,
+        description: '用户流程脚本路径，可指定多个'
+      })
+      .option('compare', {
+        type: 'array',
+        string: true,
+        description: '用于对比的URL，可指定多个生成排行榜'
+      })
+      .option('baseline', {
+        type: 'string',
+        description: '与基准结果对比检查性能退化：历史数据文件路径、latest或blessed'
+      })
+      .option('concurrency', {
+        type: 'number',
+        description: '并行运行的Chrome实例数量（并行会影响性能指标的准确性）',
+        default: 1
+      })
+      .option('adaptive', {
+        type: 'boolean',
+        description: '根据测量稳定性自动决定测试次数'
+      })
+      .option('save-history', {
+        type: 'boolean',
+        description: '保存历史数据用于趋势分析',
+        default: true
+      })
+    )
+    .command('compare [files..]', '对比历史测试结果，不运行测试', command => command
+      .positional('files', {
+        type: 'string',
+        description: '历史数据文件：第一个为基准，第二个为当前结果，多于两个时生成排行榜'
+      })
+      .options(historyOptions)
+      .options(outputDirOptions)
+      .option('before', {
+        type: 'string',
+        description: '从历史数据中选择早于该时间的最近一次结果作为基准，如2026-10-01'
+      })
+      .option('until', {
+        type: 'string',
+        description: '从历史数据中选择早于该时间的最近一次结果作为当前结果，默认最近一次'
+      })
+    )
+    .command('trend', '根据历史数据重新生成趋势报告，不运行测试', command => command
+      .option('url', {
+        alias: 'u',
+        type: 'string',
+        description: '网站URL，默认为历史数据中的每个URL分别生成'
+      })
+      .option('device', {
+        alias: 'd',
+        type: 'string',
+        description: '设备类型'
+      })
+      .option('throttling', {
+        type: 'string',
+        description: '网络节流预设'
+      })
+      .options(outputDirOptions)
+    )
+    .command('report [files..]', '根据保存的Web Vitals数据重新生成详细报告，不运行测试', command => command
+      .positional('files', {
+        type: 'string',
+        description: 'Web Vitals数据文件，默认使用最近一次测试的数据'
+      })
+      .options(historyOptions)
+      .options(outputDirOptions)
+      .option('history', {
+        type: 'string',
+        description: '提供得分和统计信息的历史数据文件，默认使用同一次测试保存的历史数据'
+      })
+    )
+    .command('baseline <action> [file]', '管理回归检查使用的基准结果（run --baseline blessed）', command => command
+      .positional('action', {
+        type: 'string',
+        choices: ['set', 'show', 'clear'],
+        description: 'set: 设置基准；show: 查看基准；clear: 清除基准'
+      })
+      .positional('file', {
+        type: 'string',
+        description: '设置为基准的历史数据文件，默认使用最近一次测试结果'
+      })
+      .options(historyOptions)
+      .options(outputDirOptions)
+      .option('all', {
+        type: 'boolean',
+        description: '清除全部基准'
+      })
+    )
     .option('verbose', {
       alias: 'v',
       type: 'boolean',
       description: '显示详细日志',
       default: false
     })
-    .option('save-history', {
-      type: 'boolean',
-      description: '保存历史数据用于趋势分析',
-      default: true
-    })
+    .strictCommands()
     .help();
   
   const argv = await parser.parse(hideBin(process.argv));
   
   // 设置日志级别
   logger.setLevel(argv.verbose ? LogLevel.DEBUG : LogLevel.INFO);
-
-  // 从配置文件加载配置（如果指定）
-  let fileConfig = {};
-  if (argv.config) {
-    try {
-      const configPath = path.resolve(process.cwd(), argv.config);
-      if (fs.existsSync(configPath)) {
-        fileConfig = await fs.readJSON(configPath);
-        logger.info(`已从 ${configPath} 加载配置`);
-      }
-    } catch (error) {
-      logger.error('读取配置文件失败:', error);
-    }
-  }
-
-  // 合并配置
-  const config: TestConfig = {
-    url: argv.url || 'https://playwright.dev',
-    testCount: argv.count || 5,
-    categories: ['performance', 'accessibility', 'best-practices', 'seo'],
-    device: argv.device || 'Desktop',
-    // 设置网络节流配置
-    throttling: {
-      cpuSlowdownMultiplier: 4,
-      downloadThroughputKbps: 1638.4, // 模拟3G网络
-      uploadThroughputKbps: 768,
-      rttMs: 150 // 往返延迟
-    },
-    compareUrl: argv.compare,
-    saveHistory: argv['save-history'] !== undefined ? argv['save-history'] : true,
-    ...fileConfig
-  };
   
-  logger.title(`Lighthouse 性能测试工具`);
-  logger.info(`将对 ${config.url} 进行 ${config.testCount} 次测试并计算平均值...`);
+  const command = argv._[0] || 'run';
+  if (command === 'run') {
+    await runLighthouseTest(argv, cli);
+    return;
+  }
   
-  // 启动Chrome浏览器
-  logger.info('启动Chrome浏览器...');
+  // 离线命令只读取保存的测试结果，不启动浏览器
+  const offlineCommands = {
+    compare: compareHistory,
+    trend: rebuildTrendReports,
+    report: regenerateDetailedReport,
+    baseline: manageBaseline
+  };
+  if (!(command in offlineCommands)) {
+    logger.error(`未知命令: ${command}`);
+    parser.showHelp();
+    process.exitCode = 1;
+    return;
+  }
   
-  // 启动Chrome浏览器
-  const chrome = await chromeLauncher.launch({
-    chromeFlags: ['--headless', '--disable-gpu', '--no-sandbox']
-  });
+  try {
+    const outputDir = await resolveOutputDir(argv, logger);
+    await offlineCommands[command as keyof typeof offlineCommands](argv, await prepareOutputDirs(outputDir), logger);
+  } catch (error) {
+    logger.error(`${command} 命令执行失败:`, error);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * 离线命令使用的报告目录，优先级与测试时相同：--output-dir、配置文件、profile、LH_OUTPUT_DIR环境变量依次覆盖
+ */
+async function resolveOutputDir(argv: any, logger: Logger): Promise<string | undefined> {
+  if (argv.profile && !argv.config) {
+    throw new Error('使用--profile时需要通过--config指定配置文件');
+  }
   
-  // 设置设备模拟
-  const deviceSettings = config.device === 'Mobile' ? devices['Pixel 5'] : devices['Desktop Chrome'];
+  const fileConfig = argv.config ? await loadConfigFile(argv.config, argv.profile) : {};
+  const config = applyEnvOverrides({ outputDir: argv['output-dir'], ...fileConfig }, process.env, logger);
+  return config.outputDir;
+}
+
+async function runLighthouseTest(argv: any, cli: ReturnType<typeof createCLI>) {
+  const { logger, poolProgress } = cli;
   
+  let config: AuditConfig;
   try {
-    logger.subtitle(`测试网站: ${config.url}`);
+    if (argv.profile && !argv.config) {
+      throw new Error('使用--profile时需要通过--config指定配置文件');
+    }
     
-    // 设置Lighthouse选项
-    const options: {
-      logLevel: string;
-      output: string;
-      onlyCategories: string[];
-      port: number;
-      formFactor: string;
-      screenEmulation: {
-        mobile: boolean;
-        width: number;
-        height: number;
-        deviceScaleFactor: number;
-      };
-      throttling: {
-        cpuSlowdownMultiplier: number;
-        downloadThroughputKbps: number;
-        uploadThroughputKbps: number;
-        rttMs: number;
-      };
-    } = {
-      logLevel: 'info',
-      output: 'html',
-      onlyCategories: config.categories,
-      port: chrome.port,
-      formFactor: config.device === 'Mobile' ? 'mobile' : 'desktop',
-      screenEmulation: {
-        mobile: config.device === 'Mobile',
-        width: deviceSettings.viewport?.width || 1920,
-        height: deviceSettings.viewport?.height || 1080,
-        deviceScaleFactor: config.device === 'Mobile' ? 2.75 : 1
-      },
-      throttling: config.throttling || {
-        cpuSlowdownMultiplier: 4,
-        downloadThroughputKbps: 1638.4,
-        uploadThroughputKbps: 768,
-        rttMs: 150
-      }
-    };
+    // 从配置文件加载配置（如果指定），合并继承的配置文件和选择的profile，字符串中的${ENV_VAR}会被替换为环境变量的值
+    const fileConfig = argv.config ? await loadConfigFile(argv.config, argv.profile) : {};
+    if (argv.config && !argv.printConfig) {
+      logger.info(`已从 ${argv.config} 加载配置${argv.profile ? `（profile: ${argv.profile}）` : ''}`);
+    }
     
-    // 用于存储多次测试的得分
-    type CategoryScores = Record<string, number[]>;
-    const scores: CategoryScores = {
-      performance: [],
-      accessibility: [],
-      'best-practices': [],
-      seo: []
+    // 合并配置，未指定的选项使用默认配置
+    config = {
+      url: argv.url,
+      testCount: argv.count,
+      device: argv.device,
+      throttling: argv.throttling,
+      throttlingMethod: argv['throttling-method'],
+      matrix: argv['device-matrix'] || argv['throttling-matrix']
+        ? { devices: argv['device-matrix'], throttling: argv['throttling-matrix'] }
+        : undefined,
+      serve: argv.serve ? { dir: argv.serve, port: argv['serve-port'], spa: argv['serve-spa'] } : undefined,
+      compareUrl: argv.compare,
+      setupScript: argv['setup-script'],
+      flows: argv.flow,
+      concurrency: argv.concurrency,
+      adaptive: argv.adaptive,
+      baseline: argv.baseline,
+      saveHistory: argv['save-history'],
+      ...fileConfig
     };
     
-    // 确保输出目录存在
-    const outputDir = path.join(__dirname, '../reports');
-    await fs.ensureDir(outputDir);
-    
-    // 创建可访问性问题分析目录
-    const accessibilityDir = path.join(outputDir, 'accessibility-issues');
-    await fs.ensureDir(accessibilityDir);
-    
-    // 创建Web Vitals数据目录
-    const webVitalsDir = path.join(outputDir, 'web-vitals');
-    await fs.ensureDir(webVitalsDir);
-    
-    // 创建历史数据目录
-    const historyDir = path.join(outputDir, 'history');
-    await fs.ensureDir(historyDir);
-    
-    // 存储Web Vitals结果
-    const webVitalsResults: WebVitalsResult[] = [];
-    
-    // 创建进度条
-    const progressBar = progress(config.testCount);
-    
-    // 多次运行测试
-    for (let i = 1; i <= config.testCount; i++) {
-      logger.info(`\n运行第 ${i}/${config.testCount} 次Lighthouse测试...`);
-      progressBar.update(i - 1, `测试中...`);
-      
-      // 使用lighthouse API - 动态导入ES模块
-      const lighthouse = await import('lighthouse');
-      const runnerResult = await lighthouse.default(config.url, options) as LighthouseResult;
-      
-      // 保存每次测试的HTML报告
-      const timestamp = new Date().toISOString().replace(/:/g, '-');
-      const reportHtml = runnerResult.report;
-      const reportPath = path.join(outputDir, `lighthouse-report-${i}-${timestamp}.html`);
-      await fs.writeFile(reportPath, reportHtml);
-      logger.debug(`第 ${i} 次测试报告已保存至: ${reportPath}`);
-      
-      // 提取Web Vitals指标
-      const webVitalsMetrics = extractWebVitals(runnerResult.lhr);
-      const webVitalsResult: WebVitalsResult = {
-        url: config.url,
-        metrics: webVitalsMetrics,
-        timestamp: new Date().toISOString(),
-        device: config.device
+    // 命令行指定的页面发现选项覆盖配置文件
+    if (argv.sitemap || argv.crawl) {
+      config.discover = {
+        ...config.discover,
+        ...(argv.sitemap ? { sitemap: argv.sitemap } : {}),
+        ...(argv.crawl ? { crawl: argv.crawl } : {})
       };
-      
-      webVitalsResults.push(webVitalsResult);
-      
-      // 保存Web Vitals数据
-      const webVitalsPath = path.join(webVitalsDir, `web-vitals-${i}-${timestamp}.json`);
-      await fs.writeJSON(webVitalsPath, webVitalsResult, { spaces: 2 });
-      
-      // 分析并保存可访问性问题
-      if (runnerResult.lhr.audits) {
-        const accessibilityIssues = [];
-        for (const [id, audit] of Object.entries(runnerResult.lhr.audits)) {
-          // 只关注可访问性相关的审计项且得分不是满分或null
-          if (id.startsWith('accessibility/') && audit.score !== 1 && audit.score !== null) {
-            accessibilityIssues.push({
-              id: audit.id,
-              title: audit.title,
-              description: audit.description,
-              score: audit.score,
-              details: audit.details,
-              displayValue: audit.displayValue || ''
-            });
-          }
-        }
-        
-        if (accessibilityIssues.length > 0) {
-          const issuesPath = path.join(accessibilityDir, `accessibility-issues-${i}-${timestamp}.json`);
-          await fs.writeJSON(issuesPath, accessibilityIssues, { spaces: 2 });
-          logger.debug(`发现 ${accessibilityIssues.length} 个可访问性问题，已保存至: ${issuesPath}`);
-          
-          // 输出可访问性问题摘要
-          logger.group('可访问性问题摘要:', () => {
-            accessibilityIssues.slice(0, 5).forEach((issue, index) => {
-              logger.warning(`${index + 1}. ${issue.title} - ${issue.displayValue}`);
-            });
-            if (accessibilityIssues.length > 5) {
-              logger.info(`...以及其他 ${accessibilityIssues.length - 5} 个问题`);
-            }
-          });
-          logger.info('改进建议: 请查看详细报告以获取完整的可访问性问题列表和修复建议。');
-        } else {
-          logger.success('未发现可访问性问题，太棒了！');
-        }
-      }
-      
-      // 收集每次测试的得分
-      if (runnerResult.lhr.categories) {
-        for (const category of config.categories) {
-          if (runnerResult.lhr.categories[category]) {
-            scores[category].push(runnerResult.lhr.categories[category].score * 100);
-          }
-        }
-      }
-      
-      // 输出当前测试的得分
-      logger.group(`第 ${i} 次测试得分:`, () => {
-        for (const category of config.categories) {
-          if (runnerResult.lhr.categories[category]) {
-            const score = runnerResult.lhr.categories[category].score * 100;
-            logger.info(`${getCategoryName(category)}: ${formatScore(score)}`);
-          }
-        }
-      });
-      
-      // 输出Web Vitals指标
-      logger.group('Web Vitals指标:', () => {
-        for (const [key, value] of Object.entries(webVitalsMetrics)) {
-          if (value !== null) {
-            const unit = key === 'CLS' ? '' : 'ms';
-            logger.info(formatWebVital(key, value, unit));
-          }
-        }
-      });
-      
-      progressBar.update(i, `完成第${i}次测试`);
     }
     
-    progressBar.complete('所有测试完成!');
-    
-    // 计算并输出平均得分
-    logger.title(`${config.testCount}次测试平均得分`);
-    const avgScores: Record<string, number> = {};
-    
-    for (const category of config.categories) {
-      if (scores[category].length > 0) {
-        const avgScore = scores[category].reduce((sum, score) => sum + score, 0) / scores[category].length;
-        avgScores[category] = avgScore;
-        logger.info(`${getCategoryName(category)}: ${formatScore(avgScore)}`);
-      }
+    // 命令行指定的HTTP头、Cookie和屏蔽规则与配置文件中的合并
+    if (argv.header) {
+      config.headers = { ...config.headers, ...parseHeaders(argv.header) };
+    }
+    if (argv.cookie) {
+      config.cookies = [...(config.cookies || []), ...parseCookies(argv.cookie)];
+    }
+    if (argv['block-url']) {
+      config.blockedUrlPatterns = [...(config.blockedUrlPatterns || []), ...argv['block-url']];
+    }
+    if (argv['chrome-path'] || argv['chrome-flag'] || argv['cdp-url']) {
+      config.chrome = {
+        ...config.chrome,
+        ...(argv['chrome-path'] ? { executablePath: argv['chrome-path'] } : {}),
+        ...(argv['chrome-flag'] ? { flags: [...((config.chrome && config.chrome.flags) || []), ...argv['chrome-flag']] } : {}),
+        ...(argv['cdp-url'] ? { cdpUrl: argv['cdp-url'] } : {})
+      };
+    }
+    if (argv['host-map']) {
+      config.hostMap = { ...config.hostMap, ...parseHostMap(argv['host-map']) };
+    }
+    if (argv['third-party']) {
+      config.thirdParty = { ...config.thirdParty, ...parseThirdParty(argv['third-party']) };
     }
     
-    // 使用Playwright进行简单的页面截图
-    logger.info('\n使用Playwright进行页面截图...');
-    const browser = await chromium.launch();
-    const context = await browser.newContext({
-      ...deviceSettings
-    });
-    const page = await context.newPage();
-    
-    await page.goto(config.url);
-    
-    // 保存不同设备类型的截图
-    const screenshotPath = path.join(outputDir, `screenshot-${config.device}.png`);
-    await page.screenshot({ path: screenshotPath });
-    logger.success(`${config.device}设备页面截图已保存至: ${screenshotPath}`);
-    
-    await browser.close();
-    
-    // 准备测试结果数据
-    const testResult: TestResult = {
-      url: config.url,
-      device: config.device,
-      timestamp: new Date().toISOString(),
-      scores: avgScores,
-      webVitals: webVitalsResults[webVitalsResults.length - 1].metrics
-    };
+    // LH_*环境变量覆盖命令行和配置文件中的配置
+    config = applyEnvOverrides(config, process.env, logger);
     
-    // 保存历史数据用于趋势分析
-    if (config.saveHistory) {
-      const historyPath = path.join(historyDir, `history-${new Date().toISOString().replace(/:/g, '-')}.json`);
-      await fs.writeJSON(historyPath, testResult, { spaces: 2 });
-      logger.info(`历史数据已保存至: ${historyPath}`);
-      
-      // 读取所有历史数据
-      const historyFiles = await fs.readdir(historyDir);
-      const historyData: TestResult[] = [];
-      
-      for (const file of historyFiles) {
-        if (file.endsWith('.json')) {
-          try {
-            const data = await fs.readJSON(path.join(historyDir, file));
-            historyData.push(data);
-          } catch (error) {
-            logger.error(`读取历史数据文件 ${file} 失败:`, error);
-          }
-        }
-      }
-      
-      // 按时间排序
-      historyData.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-      
-      // 生成趋势报告
-      if (historyData.length > 1) {
-        const trendReportPath = await generateTrendReport(historyData, outputDir);
-        logger.success(`趋势报告已生成: ${trendReportPath}`);
-      }
+    // 输出包含默认值的最终配置，便于排查继承和覆盖的结果
+    if (argv.printConfig) {
+      console.log(JSON.stringify(resolveConfig(config), null, 2));
     }
+    validateConfig(config);
+  } catch (error) {
+    // 配置错误由用户修正，只输出错误说明
+    logger.error(`加载配置失败: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+    return;
+  }
+  
+  if (argv.printConfig) return;
+  
+  logger.title(`Lighthouse 性能测试工具`);
+  
+  try {
+    const result = await audit(config, { logger, progress: poolProgress });
     
-    // 生成详细报告
-    const detailedReportPath = await generateDetailedReport(testResult, webVitalsResults, outputDir);
-    logger.success(`详细报告已生成: ${detailedReportPath}`);
-    
-    // 如果指定了对比URL，则进行对比测试
-    if (config.compareUrl) {
-      logger.title(`开始对比测试: ${config.compareUrl}`);
-      
-      // 修改配置以测试对比URL
-      const compareConfig = { ...config, url: config.compareUrl };
-      
-      // 运行对比测试
-      const compareOptions = { ...options };
-      compareOptions.port = chrome.port;
-      
-      const compareResult = await lighthouse(config.compareUrl, compareOptions) as LighthouseResult;
-      
-      // 提取对比测试的Web Vitals指标
-      const compareWebVitalsMetrics = extractWebVitals(compareResult.lhr);
-      
-      // 计算对比测试的平均得分
-      const compareScores: Record<string, number> = {};
-      for (const category of config.categories) {
-        if (compareResult.lhr.categories[category]) {
-          compareScores[category] = compareResult.lhr.categories[category].score * 100;
-        }
-      }
-      
-      // 准备对比测试结果数据
-      const compareTestResult: TestResult = {
-        url: config.compareUrl,
-        device: config.device,
-        timestamp: new Date().toISOString(),
-        scores: compareScores,
-        webVitals: compareWebVitalsMetrics
-      };
-      
-      // 生成对比报告
-      const comparisonReportPath = await generateComparisonReport(testResult, compareTestResult, outputDir);
-      logger.success(`对比报告已生成: ${comparisonReportPath}`);
+    // 有URL测试失败、未通过性能预算或出现性能退化时以非零状态码退出，供CI判断
+    for (const failure of result.failures) {
+      logger.error(failure);
+    }
+    if (result.failures.length > 0) {
+      process.exitCode = 1;
     }
     
-    logger.title('测试完成');
-    logger.info(`所有报告已保存至: ${outputDir}`);
     logger.info('感谢使用Lighthouse性能测试工具！');
   } catch (error) {
     logger.error('测试过程中发生错误:', error);
-  } finally {
-    // 关闭Chrome
-    await chrome.kill();
+    process.exitCode = 1;
   }
 }
 
-// 获取分类名称的中文显示
-function getCategoryName(category: string): string {
-  const categoryNames: Record<string, string> = {
-    'performance': '性能',
-    'accessibility': '可访问性',
-    'best-practices': '最佳实践',
-    'seo': 'SEO'
-  };
-  return categoryNames[category] || category;
+// 解析--header选项，格式为"名称: 值"
+function parseHeaders(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.indexOf(':');
+    if (index <= 0) {
+      throw new Error(`无效的HTTP头: ${value}，格式应为"名称: 值"`);
+    }
+    headers[value.slice(0, index).trim()] = value.slice(index + 1).trim();
+  }
+  return headers;
 }
 
-// 测试结果
-interface TestResult {
-  url: string;
-  device: string;
-  timestamp: string;
-  scores: Record<string, number>;
-  webVitals: any;
+// 解析--cookie选项，格式为"名称=值"
+function parseCookies(values: string[]): CookieConfig[] {
+  return values.map(value => {
+    const index = value.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`无效的Cookie: ${value}，格式应为"名称=值"`);
+    }
+    return { name: value.slice(0, index).trim(), value: value.slice(index + 1).trim() };
+  });
+}
+
+// 解析--host-map选项，格式为"主机名=IP"
+function parseHostMap(values: string[]): Record<string, string> {
+  const hostMap: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.indexOf('=');
+    const target = value.slice(index + 1).trim();
+    if (index <= 0 || !target) {
+      throw new Error(`无效的主机映射: ${value}，格式应为"主机名=IP"`);
+    }
+    hostMap[value.slice(0, index).trim()] = target;
+  }
+  return hostMap;
 }
 
-// 执行测试
-runLighthouseTest().catch(error => {
-  console.error('程序执行失败:', error);
-  process.exit(1);
-});
\ No newline at end of file
+// 解析--third-party选项，格式为"组名=域名1,域名2"
+function parseThirdParty(values: string[]): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const value of values) {
+    const index = value.indexOf('=');
+    const domains = value.slice(index + 1).split(',').map(domain => domain.trim()).filter(Boolean);
+    if (index <= 0 || domains.length === 0) {
+      throw new Error(`无效的第三方域名分组: ${value}，格式应为"组名=域名1,域名2"`);
+    }
+    groups[value.slice(0, index).trim()] = domains;
+  }
+  return groups;
+}
+
+// 直接运行时执行命令行工具，被其他模块导入时只提供接口
+if (require.main === module) {
+  main().catch(error => {
+    console.error('程序执行失败:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,160 @@
+/**
+ * Lighthouse执行模块
+ * 封装单个Chrome实例上的Lighthouse运行，并提供多实例并行调度
+ */
+
+import { fork, ChildProcess } from 'child_process';
+import * as path from 'path';
+import { loadLighthouseConfig } from './lighthouseSettings';
+
+// Lighthouse结果类型定义
+export interface LighthouseResult {
+  report: string;
+  lhr: {
+    lighthouseVersion: string;
+    categories: {
+      [key: string]: {
+        score: number;
+      };
+    };
+    audits: {
+      [key: string]: {
+        id: string;
+        title: string;
+        description: string;
+        score: number | null;
+        displayValue?: string;
+        details?: any;
+      };
+    };
+  };
+}
+
+/**
+ * 绑定到单个Chrome实例的Lighthouse执行器
+ */
+export interface LighthouseRunner {
+  port: number;
+  run(url: string, options: Record<string, any>): Promise<LighthouseResult>;
+  close(): Promise<void>;
+}
+
+// 主进程与Lighthouse子进程之间的消息
+export interface WorkerRequest {
+  id: number;
+  url: string;
+  options: Record<string, any>;
+}
+
+export interface WorkerResponse {
+  id: number;
+  result?: LighthouseResult;
+  error?: string;
+}
+
+/**
+ * 在当前进程中运行Lighthouse，仅适用于同一时间只有一个测试的情况
+ */
+export function createInProcessRunner(port: number, hostname: string = '127.0.0.1'): LighthouseRunner {
+  return {
+    port,
+    async run(url, options) {
+      // 使用lighthouse API - 动态导入ES模块
+      const lighthouse = await import('lighthouse');
+      return await lighthouse.default(url, { ...options, hostname, port }, loadLighthouseConfig(options)) as unknown as LighthouseResult;
+    },
+    async close() {}
+  };
+}
+
+/**
+ * 在独立子进程中运行Lighthouse
+ * Lighthouse依赖进程级的全局状态，并行测试时每个Chrome实例需要单独的进程
+ */
+export function createForkedRunner(port: number, hostname: string = '127.0.0.1'): LighthouseRunner {
+  const extension = path.extname(__filename);
+  const child: ChildProcess = fork(path.join(__dirname, `lighthouseWorker${extension}`), [], {
+    // 通过ts-node运行时，子进程同样需要注册ts-node
+    execArgv: extension === '.ts' ? ['-r', 'ts-node/register/transpile-only'] : []
+  });
+  
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (result: LighthouseResult) => void; reject: (error: Error) => void }>();
+  
+  child.on('message', (response: WorkerResponse) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    
+    if (response.error !== undefined) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result!);
+    }
+  });
+  
+  // 子进程退出或出错时，所有未完成的任务都以失败结束
+  const rejectAll = (error: Error) => {
+    for (const request of pending.values()) {
+      request.reject(error);
+    }
+    pending.clear();
+  };
+  
+  child.on('exit', code => rejectAll(new Error(`Lighthouse子进程意外退出 (code ${code})`)));
+  child.on('error', error => rejectAll(new Error(`Lighthouse子进程出错: ${error.message}`)));
+  
+  return {
+    port,
+    run(url, options) {
+      return new Promise((resolve, reject) => {
+        // 子进程已退出时直接失败，避免向已关闭的IPC通道发送消息
+        if (child.exitCode !== null || !child.connected) {
+          reject(new Error('Lighthouse子进程已退出'));
+          return;
+        }
+        
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        const request: WorkerRequest = { id, url, options: { ...options, hostname, port } };
+        child.send(request, error => {
+          if (error && pending.delete(id)) {
+            reject(new Error(`无法向Lighthouse子进程发送任务: ${error.message}`));
+          }
+        });
+      });
+    },
+    async close() {
+      if (child.exitCode === null) {
+        child.kill();
+      }
+    }
+  };
+}
+
+/**
+ * 将任务分配给多个执行器并行运行
+ * 每个执行器同一时间只运行一个任务，结果按任务顺序返回，单个任务失败不影响其他任务
+ */
+export async function runPool<J, R>(
+  jobs: J[],
+  runners: LighthouseRunner[],
+  handler: (job: J, runner: LighthouseRunner, workerIndex: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(jobs.length);
+  let nextJob = 0;
+  
+  const work = async (runner: LighthouseRunner, workerIndex: number) => {
+    while (nextJob < jobs.length) {
+      const jobIndex = nextJob++;
+      try {
+        results[jobIndex] = { status: 'fulfilled', value: await handler(jobs[jobIndex], runner, workerIndex) };
+      } catch (error) {
+        results[jobIndex] = { status: 'rejected', reason: error };
+      }
+    }
+  };
+  
+  await Promise.all(runners.map(work));
+  return results;
+}
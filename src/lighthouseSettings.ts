@@ -0,0 +1,58 @@
+/**
+ * Lighthouse设置模块
+ * 将配置中的lighthouse部分合并到Lighthouse设置中，并加载自定义的Lighthouse配置文件
+ */
+
+import * as path from 'path';
+import { mergeConfig } from './config';
+import { loadScriptModule } from './setupScript';
+
+/**
+ * 配置中的lighthouse部分，深度合并到每次测试的Lighthouse设置中
+ */
+export interface LighthouseSettings {
+  onlyAudits?: string[]; // 只运行这些审计项
+  skipAudits?: string[]; // 跳过这些审计项
+  extraHeaders?: Record<string, string>; // 每个请求附加的HTTP头
+  blockedUrlPatterns?: string[]; // 屏蔽匹配这些模式的请求，如*.analytics.com
+  disableStorageReset?: boolean; // 不清除Cookie和本地存储，执行了前置脚本时默认为true
+  maxWaitForLoad?: number; // 等待页面加载的最长时间（毫秒）
+  maxWaitForFcp?: number; // 等待首次内容绘制的最长时间（毫秒）
+  pauseAfterFcpMs?: number;
+  pauseAfterLoadMs?: number;
+  networkQuietThresholdMs?: number;
+  cpuQuietThresholdMs?: number;
+  locale?: string; // 报告语言，如zh
+  disableFullPageScreenshot?: boolean;
+  configPath?: string; // 完整的Lighthouse配置文件（可包含自定义gatherer和审计项），路径相对于当前工作目录
+}
+
+/**
+ * 将lighthouse配置深度合并到Lighthouse设置中，配置文件路径转换为绝对路径
+ * Lighthouse按configPath所在目录解析配置文件中自定义gatherer和审计项的相对路径
+ */
+export function applyLighthouseSettings<T extends Record<string, any>>(options: T, settings?: LighthouseSettings): T {
+  if (!settings) return options;
+  
+  return mergeConfig(options, {
+    ...settings,
+    // 屏蔽规则追加在配置的blockedUrlPatterns和第三方分组的规则之后，而不是替换它们
+    blockedUrlPatterns: settings.blockedUrlPatterns ? [...(options.blockedUrlPatterns || []), ...settings.blockedUrlPatterns] : undefined,
+    configPath: settings.configPath ? path.resolve(process.cwd(), settings.configPath) : undefined
+  });
+}
+
+/**
+ * 加载Lighthouse设置中configPath指向的配置文件，未指定时返回undefined（使用Lighthouse默认配置）
+ */
+export function loadLighthouseConfig(options: Record<string, any>): Record<string, any> | undefined {
+  if (!options.configPath) return undefined;
+  
+  try {
+    return loadScriptModule<Record<string, any>>(options.configPath);
+  } catch (error) {
+    // 只保留错误的第一行，不显示require调用栈
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    throw new Error(`加载Lighthouse配置文件 ${options.configPath} 失败: ${message}`);
+  }
+}
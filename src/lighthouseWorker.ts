@@ -0,0 +1,23 @@
+/**
+ * Lighthouse子进程入口
+ * 接收主进程发送的测试请求，在独立进程中运行Lighthouse并返回结果
+ */
+
+import { LighthouseResult, WorkerRequest, WorkerResponse } from './lighthouseRunner';
+import { loadLighthouseConfig } from './lighthouseSettings';
+
+process.on('message', async (request: WorkerRequest) => {
+  let response: WorkerResponse;
+  
+  try {
+    // 使用lighthouse API - 动态导入ES模块
+    const lighthouse = await import('lighthouse');
+    const runnerResult = await lighthouse.default(request.url, request.options, loadLighthouseConfig(request.options)) as unknown as LighthouseResult;
+    // 只返回需要的字段，避免传输artifacts
+    response = { id: request.id, result: { report: runnerResult.report, lhr: runnerResult.lhr } };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  
+  process.send!(response);
+});
@@ -0,0 +1,362 @@
+/**
+ * 矩阵报告生成器
+ * 用于对比同一URL在不同设备和网络条件下各指标的变化
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { SummaryEntry } from './reportGenerator';
+import { WebVitalsMetrics, evaluateWebVitals } from './webVitals';
+import { THROTTLING_PRESETS, compareThrottlingSpeed, getThrottlingLabel, resolveThrottling } from './throttling';
+
+// Web Vitals评估结果对应的样式
+const EVALUATION_CLASSES: Record<string, string> = {
+  '良好': 'good',
+  '需要改进': 'needs-improvement',
+  '较差': 'poor'
+};
+
+// 热力图单元格中显示的核心Web Vitals指标，实验室测试中以TBT代替INP
+const HEATMAP_WEB_VITALS: Array<keyof WebVitalsMetrics> = ['LCP', 'CLS', 'TBT'];
+
+/**
+ * 生成测试矩阵报告
+ */
+export async function generateMatrixReport(entries: SummaryEntry[], outputDir: string): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/:/g, '-');
+  const reportPath = path.join(outputDir, `matrix-report-${timestamp}.html`);
+  
+  // 生成HTML内容
+  const htmlContent = generateMatrixHtml(entries);
+  
+  // 写入文件
+  await fs.writeFile(reportPath, htmlContent);
+  
+  return reportPath;
+}
+
+/**
+ * 生成矩阵报告HTML
+ */
+function generateMatrixHtml(entries: SummaryEntry[]): string {
+  const webVitalKeys: Array<keyof WebVitalsMetrics> = ['FCP', 'LCP', 'CLS', 'TBT', 'TTFB'];
+  const devices = Array.from(new Set(entries.map(entry => entry.device)));
+  const throttlings = Array.from(new Set(entries.map(entry => entry.throttling))).sort(compareThrottlingNames);
+  
+  // 同一URL的结果为一组
+  const groups = new Map<string, SummaryEntry[]>();
+  for (const entry of entries) {
+    groups.set(entry.url, [...(groups.get(entry.url) || []), entry]);
+  }
+  
+  const sections = Array.from(groups.entries()).map(([url, groupEntries]) => `
+    <div class="report-section">
+      <h2 class="section-title">${url}</h2>
+      ${generateHeatmap(groupEntries, devices, throttlings)}
+      ${throttlings.length > 1 ? devices.map(device => {
+        const deviceEntries = groupEntries.filter(entry => entry.device === device);
+        return deviceEntries.length > 0 ? generateThrottlingTable(device, deviceEntries, webVitalKeys) : '';
+      }).join('') : ''}
+    </div>
+    `).join('');
+  
+  return `
+  <!DOCTYPE html>
+  <html lang="zh-CN">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>测试矩阵报告</title>
+    <style>
+      body {
+        font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+        line-height: 1.6;
+        color: #333;
+        max-width: 1400px;
+        margin: 0 auto;
+        padding: 20px;
+        background-color: #f5f5f5;
+      }
+      
+      .report-header {
+        background-color: white;
+        padding: 20px;
+        border-radius: 8px;
+        box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+        margin-bottom: 20px;
+      }
+      
+      .report-title {
+        color: #4285f4;
+        margin: 0;
+        font-size: 24px;
+      }
+      
+      .report-meta {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 20px;
+        margin-top: 10px;
+        color: #666;
+      }
+      
+      .report-section {
+        background-color: white;
+        padding: 20px;
+        border-radius: 8px;
+        box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+        margin-bottom: 20px;
+        overflow-x: auto;
+      }
+      
+      .section-title {
+        color: #4285f4;
+        border-bottom: 2px solid #f8f9fa;
+        padding-bottom: 10px;
+        margin-top: 0;
+        word-break: break-all;
+      }
+      
+      .subsection-title {
+        color: #343a40;
+        font-size: 16px;
+        margin: 20px 0 10px;
+      }
+      
+      .matrix-table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+      
+      .matrix-table th,
+      .matrix-table td {
+        padding: 10px 12px;
+        text-align: left;
+        border-bottom: 1px solid #ddd;
+      }
+      
+      .matrix-table th {
+        background-color: #f8f9fa;
+        font-weight: bold;
+        color: #343a40;
+      }
+      
+      .heatmap-table td {
+        border: 2px solid white;
+        vertical-align: top;
+      }
+      
+      .heatmap-good {
+        background-color: #e6f4ea;
+      }
+      
+      .heatmap-needs-improvement {
+        background-color: #fef7e0;
+      }
+      
+      .heatmap-poor {
+        background-color: #fce8e6;
+      }
+      
+      .heatmap-score {
+        font-size: 22px;
+      }
+      
+      .heatmap-metric {
+        display: block;
+        font-size: 13px;
+      }
+      
+      .change {
+        display: block;
+        font-size: 12px;
+        font-weight: normal;
+        color: #666;
+      }
+      
+      .good {
+        color: #34a853;
+        font-weight: bold;
+      }
+      
+      .needs-improvement {
+        color: #fbbc05;
+        font-weight: bold;
+      }
+      
+      .poor {
+        color: #ea4335;
+        font-weight: bold;
+      }
+    </style>
+  </head>
+  <body>
+    <div class="report-header">
+      <h1 class="report-title">测试矩阵报告</h1>
+      <div class="report-meta">
+        <div><strong>测试时间:</strong> ${new Date().toLocaleString('zh-CN')}</div>
+        <div><strong>URL数量:</strong> ${groups.size}</div>
+        <div><strong>设备:</strong> ${devices.join('、')}</div>
+        <div><strong>网络条件:</strong> ${throttlings.map(name => name ? getThrottlingLabel(name) : '-').join('、')}</div>
+      </div>
+    </div>
+    
+    ${sections}
+  </body>
+  </html>
+  `;
+}
+
+/**
+ * 生成热力图表格：行为设备，列为网络条件，单元格按性能得分着色，并列出核心Web Vitals指标
+ */
+function generateHeatmap(entries: SummaryEntry[], devices: string[], throttlings: Array<string | undefined>): string {
+  const rows = devices.map(device => {
+    const cells = throttlings.map(throttling => {
+      const entry = entries.find(item => item.device === device && item.throttling === throttling);
+      if (!entry) return '<td>-</td>';
+      if (entry.error) return `<td class="heatmap-poor"><span class="poor">测试失败</span><span class="heatmap-metric">${entry.error}</span></td>`;
+      
+      const score = entry.scores.performance;
+      const rating = score === undefined ? '' : score >= 90 ? 'good' : score >= 50 ? 'needs-improvement' : 'poor';
+      const evaluations = entry.webVitals ? evaluateWebVitals(entry.webVitals) : {};
+      const metrics = HEATMAP_WEB_VITALS.map(key => {
+        const value = entry.webVitals ? entry.webVitals[key] : null;
+        if (value === null) return `<span class="heatmap-metric">${key}: -</span>`;
+        return `<span class="heatmap-metric">${key}: <span class="${EVALUATION_CLASSES[evaluations[key]] || ''}">${key === 'CLS' ? value.toFixed(3) : `${Math.round(value)}ms`}</span></span>`;
+      }).join('');
+      
+      return `
+        <td class="${rating ? `heatmap-${rating}` : ''}">
+          <span class="heatmap-score ${rating}">${score === undefined ? '-' : score.toFixed(0)}</span>
+          ${metrics}
+        </td>
+      `;
+    }).join('');
+    
+    return `
+      <tr>
+        <th>${device}</th>
+        ${cells}
+      </tr>
+    `;
+  }).join('');
+  
+  return `
+      <table class="matrix-table heatmap-table">
+        <thead>
+          <tr>
+            <th>设备 / 网络</th>
+            ${throttlings.map(name => `<th>${name ? getThrottlingLabel(name) : '-'}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+  `;
+}
+
+/**
+ * 生成同一设备在各网络条件下的指标对比表
+ */
+function generateThrottlingTable(device: string, entries: SummaryEntry[], webVitalKeys: Array<keyof WebVitalsMetrics>): string {
+  const sorted = [...entries].sort((a, b) => compareThrottlingNames(a.throttling, b.throttling));
+  // 以网络最快且测试成功的一行作为对比基准
+  const fastest = sorted.find(entry => !entry.error);
+  // 任一网络条件配置了预算时增加预算结果列
+  const showBudgets = entries.some(entry => entry.budgetResults);
+  
+  return `
+      <h3 class="subsection-title">${device}：各网络条件相对${fastest && fastest.throttling ? getThrottlingLabel(fastest.throttling) : '最快网络'}的变化</h3>
+      <table class="matrix-table">
+        <thead>
+          <tr>
+            <th>网络条件</th>
+            <th>性能得分</th>
+            ${webVitalKeys.map(key => `<th>${key}</th>`).join('')}
+            ${showBudgets ? '<th>性能预算</th>' : ''}
+          </tr>
+        </thead>
+        <tbody>
+          ${sorted.map(entry => generateMatrixRow(entry, fastest, webVitalKeys, showBudgets)).join('')}
+        </tbody>
+      </table>
+  `;
+}
+
+/**
+ * 生成矩阵报告表格行，各指标附带相对网络最快一行的变化
+ */
+function generateMatrixRow(entry: SummaryEntry, fastest: SummaryEntry | undefined, webVitalKeys: Array<keyof WebVitalsMetrics>, showBudgets: boolean): string {
+  const label = entry.throttling ? getThrottlingLabel(entry.throttling) : '-';
+  
+  if (entry.error) {
+    return `
+      <tr>
+        <td>${label}</td>
+        <td colspan="${webVitalKeys.length + (showBudgets ? 2 : 1)}" class="poor">测试失败: ${entry.error}</td>
+      </tr>
+    `;
+  }
+  
+  const isBaseline = entry === fastest;
+  
+  const score = entry.scores.performance;
+  let scoreCell = '<td>-</td>';
+  if (score !== undefined) {
+    const scoreClass = score >= 90 ? 'good' : score >= 50 ? 'needs-improvement' : 'poor';
+    const baseScore = fastest ? fastest.scores.performance : undefined;
+    const change = !isBaseline && baseScore !== undefined ? formatChange(Math.round(score - baseScore), null) : '';
+    scoreCell = `<td class="${scoreClass}">${score.toFixed(0)}${change}</td>`;
+  }
+  
+  const evaluations = entry.webVitals ? evaluateWebVitals(entry.webVitals) : {};
+  const webVitalCells = webVitalKeys.map(key => {
+    const value = entry.webVitals ? entry.webVitals[key] : null;
+    if (value === null) return '<td>-</td>';
+    
+    const baseValue = fastest && fastest.webVitals ? fastest.webVitals[key] : null;
+    let change = '';
+    if (!isBaseline && baseValue !== null) {
+      const percent = baseValue !== 0 ? ((value - baseValue) / baseValue) * 100 : null;
+      change = formatChange(key === 'CLS' ? Number((value - baseValue).toFixed(3)) : Math.round(value - baseValue), percent, key === 'CLS' ? '' : 'ms');
+    }
+    return `<td class="${EVALUATION_CLASSES[evaluations[key]] || ''}">${key === 'CLS' ? value.toFixed(3) : `${Math.round(value)}ms`}${change}</td>`;
+  }).join('');
+  
+  let budgetCell = '';
+  if (showBudgets) {
+    const failed = entry.budgetResults ? entry.budgetResults.filter(result => !result.passed).length : 0;
+    budgetCell = !entry.budgetResults ? '<td>-</td>' : `<td class="${failed > 0 ? 'poor' : 'good'}">${failed > 0 ? `${failed} 项未通过` : '通过'}</td>`;
+  }
+  
+  return `
+    <tr>
+      <td>${label}</td>
+      ${scoreCell}
+      ${webVitalCells}
+      ${budgetCell}
+    </tr>
+  `;
+}
+
+/**
+ * 格式化相对基准的变化，如 +350ms (+42.1%)
+ */
+function formatChange(absolute: number, percent: number | null, unit: string = ''): string {
+  const sign = absolute > 0 ? '+' : '';
+  const percentText = percent !== null && percent !== 0 ? ` (${percent > 0 ? '+' : ''}${percent.toFixed(1)}%)` : '';
+  return `<span class="change">${sign}${absolute}${unit}${percentText}</span>`;
+}
+
+/**
+ * 按网络从快到慢排序节流预设名称，自定义参数和未知名称排在最后
+ */
+function compareThrottlingNames(a?: string, b?: string): number {
+  const isPreset = (name?: string): name is string => !!name && name in THROTTLING_PRESETS;
+  if (isPreset(a) && isPreset(b)) return compareThrottlingSpeed(resolveThrottling(a), resolveThrottling(b));
+  if (isPreset(a)) return -1;
+  if (isPreset(b)) return 1;
+  return 0;
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { checkRegressions } from './regression';
+import { HistoryRecord } from './historyStore';
+
+function record(webVitals: Record<string, number | null>, scores: Record<string, number> = { performance: 90 }): HistoryRecord {
+  return {
+    url: 'https://example.com',
+    device: 'Desktop',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    scores,
+    webVitals: { FCP: 1000, LCP: 2000, CLS: 0, TBT: 0, TTFB: 200, ...webVitals }
+  } as HistoryRecord;
+}
+
+test('基准值为0的指标出现退化时判定为退化', () => {
+  const results = checkRegressions(record({ CLS: 0, TBT: 0 }), record({ CLS: 0.35, TBT: 1500 }));
+  const cls = results.find(result => result.name === 'CLS')!;
+  const tbt = results.find(result => result.name === 'TBT')!;
+  assert.strictEqual(cls.regressed, true);
+  assert.strictEqual(tbt.regressed, true);
+});
+
+test('基准值为0的指标退化未超出绝对值容差时通过', () => {
+  const results = checkRegressions(record({ CLS: 0, TBT: 0 }), record({ CLS: 0.005, TBT: 30 }));
+  assert.ok(results.every(result => !result.regressed));
+});
+
+test('基准值和当前值都为0时通过', () => {
+  const results = checkRegressions(record({ CLS: 0, TBT: 0 }), record({ CLS: 0, TBT: 0 }));
+  assert.ok(results.every(result => !result.regressed));
+});
+
+test('同时超出绝对值和百分比容差时判定为退化', () => {
+  const results = checkRegressions(record({ LCP: 2000 }), record({ LCP: 2500 }));
+  assert.strictEqual(results.find(result => result.name === 'LCP')!.regressed, true);
+  assert.strictEqual(checkRegressions(record({ LCP: 2000 }), record({ LCP: 2100 })).find(result => result.name === 'LCP')!.regressed, false);
+});
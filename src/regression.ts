@@ -0,0 +1,191 @@
+/**
+ * 回归检查模块
+ * 将本次测试结果与保存的基准结果对比，按容差判断各指标是否明显退化
+ */
+
+import * as fs from 'fs-extra';
+import { WebVitalsMetrics } from './webVitals';
+import { RunStats } from './statistics';
+import { calculateScoreDiffs, calculateWebVitalsDiffs } from './comparisonReporter';
+import { loadHistory, readHistoryFile, selectLatest, HistoryRecord } from './historyStore';
+
+/**
+ * 单个指标允许的退化幅度
+ * 同时配置时，只有变化同时超出绝对值和百分比容差才判定为退化
+ */
+export interface Tolerance {
+  absolute?: number; // 得分为分数，时间类指标为毫秒，CLS无单位
+  percent?: number;
+}
+
+export interface ToleranceConfig {
+  scores?: Record<string, Tolerance>;
+  webVitals?: Partial<Record<keyof WebVitalsMetrics, Tolerance>>;
+}
+
+export interface RegressionResult {
+  type: 'score' | 'webVital';
+  name: string;
+  baseline: number;
+  current: number;
+  absolute: number; // 当前值减去基准值
+  percent: number;
+  tolerance: Tolerance;
+  regressed: boolean;
+  reason?: string; // 判定为退化的原因
+}
+
+// 未配置时使用的默认容差
+const DEFAULT_SCORE_TOLERANCE: Tolerance = { absolute: 2 };
+const DEFAULT_WEB_VITAL_TOLERANCE: Tolerance = { absolute: 50, percent: 10 };
+const DEFAULT_CLS_TOLERANCE: Tolerance = { absolute: 0.01, percent: 10 };
+
+/**
+ * 加载基准结果，找不到时返回null
+ * spec为latest时使用历史数据中同一URL、设备和网络条件的最近一次结果，为blessed时使用baseline命令设置的基准，否则视为文件路径
+ * 指定的文件不存在或无法解析时抛出错误
+ */
+export async function loadBaseline(spec: string, historyDir: string, baselinesFile: string, url: string, device: string, throttling?: string): Promise<HistoryRecord | null> {
+  if (spec === 'blessed') {
+    const baselines = await loadBlessedBaselines(baselinesFile);
+    // 早期设置的基准没有记录网络条件
+    return baselines[getBaselineKey(url, device, throttling)] || baselines[getBaselineKey(url, device)] || null;
+  }
+  
+  if (spec !== 'latest') {
+    return await readHistoryFile(spec);
+  }
+  
+  return selectLatest(await loadHistory(historyDir, { url, device, throttling }));
+}
+
+/**
+ * 读取已设置的基准结果，键为设备、网络条件和URL
+ */
+export async function loadBlessedBaselines(baselinesFile: string): Promise<Record<string, HistoryRecord>> {
+  if (!await fs.pathExists(baselinesFile)) return {};
+  return await fs.readJSON(baselinesFile);
+}
+
+/**
+ * 将测试结果设置为其URL、设备和网络条件的基准，覆盖之前的基准
+ */
+export async function saveBlessedBaseline(baselinesFile: string, record: HistoryRecord): Promise<void> {
+  const baselines = await loadBlessedBaselines(baselinesFile);
+  baselines[getBaselineKey(record.url, record.device, record.throttling)] = record;
+  await fs.writeJSON(baselinesFile, baselines, { spaces: 2 });
+}
+
+/**
+ * 移除符合条件的基准结果，返回被移除的基准
+ */
+export async function removeBlessedBaselines(baselinesFile: string, filter: (record: HistoryRecord) => boolean): Promise<HistoryRecord[]> {
+  const baselines = await loadBlessedBaselines(baselinesFile);
+  const removed: HistoryRecord[] = [];
+  for (const [key, record] of Object.entries(baselines)) {
+    if (filter(record)) {
+      removed.push(record);
+      delete baselines[key];
+    }
+  }
+  await fs.writeJSON(baselinesFile, baselines, { spaces: 2 });
+  return removed;
+}
+
+/**
+ * 基准结果按设备、网络条件和URL区分
+ */
+function getBaselineKey(url: string, device: string, throttling?: string): string {
+  return throttling ? `${device} ${throttling} ${url}` : `${device} ${url}`;
+}
+
+/**
+ * 获取测试结果的Web Vitals中位数，没有统计信息时使用代表性测试的指标
+ */
+export function getMedianWebVitals(result: { webVitals: WebVitalsMetrics; stats?: RunStats }): WebVitalsMetrics {
+  const metrics = { ...result.webVitals };
+  if (result.stats) {
+    for (const [key, metricStats] of Object.entries(result.stats.webVitals)) {
+      if (metricStats) metrics[key as keyof WebVitalsMetrics] = metricStats.median;
+    }
+  }
+  return metrics;
+}
+
+/**
+ * 对比基准结果和本次结果，返回每个指标的回归检查结果
+ * 只检查两次结果中都存在的指标
+ */
+export function checkRegressions(baseline: HistoryRecord, current: HistoryRecord, tolerances: ToleranceConfig = {}): RegressionResult[] {
+  const results: RegressionResult[] = [];
+  
+  const commonScores = Object.fromEntries(
+    Object.entries(baseline.scores).filter(([category]) => current.scores[category] !== undefined)
+  );
+  const scoreDiffs = calculateScoreDiffs(commonScores, current.scores);
+  for (const [category, diff] of Object.entries(scoreDiffs)) {
+    const tolerance = { ...DEFAULT_SCORE_TOLERANCE, ...(tolerances.scores || {})[category] };
+    const percent = baseline.scores[category] !== 0 ? (diff / baseline.scores[category]) * 100 : 0;
+    // 得分越高越好，得分下降为退化
+    results.push(createResult('score', category, baseline.scores[category], current.scores[category], diff, percent, -diff, tolerance));
+  }
+  
+  const baselineWebVitals = getMedianWebVitals(baseline);
+  const currentWebVitals = getMedianWebVitals(current);
+  const webVitalsDiffs = calculateWebVitalsDiffs(baselineWebVitals, currentWebVitals);
+  for (const [key, diff] of Object.entries(webVitalsDiffs)) {
+    const metric = key as keyof WebVitalsMetrics;
+    const defaults = metric === 'CLS' ? DEFAULT_CLS_TOLERANCE : DEFAULT_WEB_VITAL_TOLERANCE;
+    const tolerance = { ...defaults, ...(tolerances.webVitals || {})[metric] };
+    // Web Vitals指标越小越好，数值增加为退化
+    results.push(createResult('webVital', key, baselineWebVitals[metric]!, currentWebVitals[metric]!, diff.absolute, diff.percentage, diff.absolute, tolerance));
+  }
+  
+  return results;
+}
+
+/**
+ * 根据退化幅度和容差生成单个指标的检查结果
+ */
+function createResult(
+  type: RegressionResult['type'],
+  name: string,
+  baseline: number,
+  current: number,
+  absolute: number,
+  percent: number,
+  worsening: number,
+  tolerance: Tolerance
+): RegressionResult {
+  // 基准值为0时（如CLS和TBT）任何退化都视为超出百分比容差
+  const worseningPercent = baseline !== 0 ? (worsening / Math.abs(baseline)) * 100 : worsening > 0 ? Infinity : 0;
+  const exceedsAbsolute = tolerance.absolute === undefined || worsening > tolerance.absolute;
+  const exceedsPercent = tolerance.percent === undefined || worseningPercent > tolerance.percent;
+  const regressed = worsening > 0 && exceedsAbsolute && exceedsPercent;
+  
+  const result: RegressionResult = { type, name, baseline, current, absolute, percent, tolerance, regressed };
+  if (regressed) {
+    const sign = absolute > 0 ? '+' : '';
+    result.reason = `${name} 从 ${formatRegressionValue(result, baseline)} 变为 ${formatRegressionValue(result, current)}` +
+      `（${sign}${formatRegressionValue(result, absolute)}，${sign}${percent.toFixed(1)}%），超出容差 ${formatTolerance(result)}`;
+  }
+  return result;
+}
+
+/**
+ * 格式化回归检查中的指标数值
+ */
+export function formatRegressionValue(result: RegressionResult, value: number): string {
+  if (result.type === 'score') return value.toFixed(1);
+  return result.name === 'CLS' ? value.toFixed(3) : `${Math.round(value)}ms`;
+}
+
+/**
+ * 格式化指标的容差
+ */
+export function formatTolerance(result: RegressionResult): string {
+  const parts: string[] = [];
+  if (result.tolerance.absolute !== undefined) parts.push(formatRegressionValue(result, result.tolerance.absolute));
+  if (result.tolerance.percent !== undefined) parts.push(`${result.tolerance.percent}%`);
+  return parts.length > 0 ? parts.join(' / ') : '无';
+}
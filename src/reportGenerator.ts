@@ -6,11 +6,19 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { WebVitalsMetrics, WebVitalsResult, evaluateWebVitals, generateWebVitalsRecommendations } from './webVitals';
+import { getPathPrefix } from './discovery';
+import { MetricStats, RunStats } from './statistics';
+import { BudgetResult, formatBudgetValue, getBudgetTypeName } from './budgets';
+import { getThrottlingLabel } from './throttling';
+import { formatHostMap, HostMap } from './hostMap';
 
 interface ReportData {
   url: string;
   timestamp: string;
   device: string;
+  throttling?: string; // 节流预设名称
+  lighthouseVersion?: string;
+  hostMap?: HostMap; // 测试时生效的主机映射
   scores: {
     performance: number;
     accessibility: number;
@@ -21,6 +29,17 @@ interface ReportData {
   webVitals: WebVitalsMetrics;
   evaluations: Record<string, string>;
   recommendations: Record<string, string[]>;
+  stats?: RunStats;
+  representativeRun?: number;
+  representativeReportLink?: string; // 代表性测试Lighthouse报告的相对路径
+  stability?: {
+    metric: string;
+    runs: number;
+    targetWidth: number;
+    interval: { width: number; lower: number; upper: number } | null;
+    stable: boolean;
+  };
+  budgetResults?: BudgetResult[];
 }
 
 /**
@@ -30,18 +49,28 @@ export async function generateDetailedReport(results: any, webVitalsResults: Web
   const timestamp = new Date().toISOString().replace(/:/g, '-');
   const reportPath = path.join(outputDir, `detailed-report-${timestamp}.html`);
   
+  // 优先使用代表性测试的指标，没有时使用最后一次测试
+  const metrics: WebVitalsMetrics = results.webVitals || webVitalsResults[webVitalsResults.length - 1].metrics;
+  
   // 准备报告数据
   const reportData: ReportData = {
     url: results.url,
     timestamp: new Date().toLocaleString('zh-CN'),
     device: results.device,
+    throttling: results.throttling,
+    lighthouseVersion: results.lighthouse ? results.lighthouse.version : undefined,
+    hostMap: results.hostMap,
     scores: results.scores,
-    webVitals: webVitalsResults[webVitalsResults.length - 1].metrics,
-    evaluations: evaluateWebVitals(webVitalsResults[webVitalsResults.length - 1].metrics),
-    recommendations: generateWebVitalsRecommendations(
-      webVitalsResults[webVitalsResults.length - 1].metrics,
-      evaluateWebVitals(webVitalsResults[webVitalsResults.length - 1].metrics)
-    )
+    webVitals: metrics,
+    evaluations: evaluateWebVitals(metrics),
+    recommendations: generateWebVitalsRecommendations(metrics, evaluateWebVitals(metrics)),
+    stats: results.stats,
+    representativeRun: results.representativeRun,
+    representativeReportLink: results.representativeReportPath
+      ? path.relative(outputDir, results.representativeReportPath)
+      : undefined,
+    stability: results.stability,
+    budgetResults: results.budgetResults
   };
   
   // 生成HTML内容
@@ -242,6 +271,34 @@ function generateHtmlReport(data: ReportData, webVitalsHistory: WebVitalsResult[
         margin-top: 20px;
       }
       
+      .stats-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin-top: 20px;
+      }
+      
+      .stats-table th,
+      .stats-table td {
+        padding: 10px 12px;
+        text-align: right;
+        border-bottom: 1px solid #ddd;
+      }
+      
+      .stats-table th:first-child,
+      .stats-table td:first-child {
+        text-align: left;
+      }
+      
+      .stats-table th {
+        background-color: var(--light-color);
+        color: var(--dark-color);
+      }
+      
+      .high-variance {
+        color: var(--danger-color);
+        font-weight: bold;
+      }
+      
       @media (max-width: 768px) {
         .score-card, .web-vitals-grid {
           grid-template-columns: 1fr;
@@ -256,11 +313,16 @@ function generateHtmlReport(data: ReportData, webVitalsHistory: WebVitalsResult[
         <div><strong>URL:</strong> ${data.url}</div>
         <div><strong>测试时间:</strong> ${data.timestamp}</div>
         <div><strong>设备类型:</strong> ${data.device}</div>
+        ${data.throttling ? `<div><strong>网络条件:</strong> ${getThrottlingLabel(data.throttling)}</div>` : ''}
+        ${data.lighthouseVersion ? `<div><strong>Lighthouse版本:</strong> ${data.lighthouseVersion}</div>` : ''}
+        ${data.hostMap ? `<div><strong>主机映射:</strong> ${formatHostMap(data.hostMap).join('、')}</div>` : ''}
+        ${data.stability ? generateStabilityMeta(data.stability) : ''}
+        ${data.representativeReportLink ? `<div><strong>代表性测试:</strong> <a href="${data.representativeReportLink}">第 ${data.representativeRun} 次测试的Lighthouse报告</a></div>` : ''}
       </div>
     </div>
     
     <div class="report-section">
-      <h2 class="section-title">Lighthouse 得分</h2>
+      <h2 class="section-title">Lighthouse 得分${data.stats ? '（中位数）' : ''}</h2>
       <div class="score-card">
         ${Object.entries(data.scores).map(([category, score]) => {
           const scoreClass = score >= 90 ? 'good' : score >= 50 ? 'needs-improvement' : 'poor';
@@ -282,6 +344,10 @@ function generateHtmlReport(data: ReportData, webVitalsHistory: WebVitalsResult[
       </div>
     </div>
     
+    ${data.budgetResults ? generateBudgetSection(data.budgetResults) : ''}
+    
+    ${data.stats ? generateStatsSection(data.stats) : ''}
+    
     <div class="report-section">
       <h2 class="section-title">性能指标趋势</h2>
       <div class="chart-container">
@@ -482,6 +548,112 @@ function generateWebVitalCards(metrics: WebVitalsMetrics, evaluations: Record<st
   return html;
 }
 
+/**
+ * 生成自适应测试稳定性信息HTML
+ */
+function generateStabilityMeta(stability: NonNullable<ReportData['stability']>): string {
+  const digits = stability.metric === 'CLS' ? 3 : 1;
+  const intervalText = stability.interval
+    ? `${stability.interval.lower.toFixed(digits)} ~ ${stability.interval.upper.toFixed(digits)}（宽度 ${stability.interval.width.toFixed(digits)}，目标 ${stability.targetWidth}）`
+    : '样本不足';
+  const statusClass = stability.stable ? 'good' : 'poor';
+  const statusText = stability.stable ? '已稳定' : '未达到目标稳定性';
+  
+  return `
+    <div><strong>自适应测试:</strong> ${stability.runs} 次，${stability.metric} 95%置信区间 ${intervalText}
+      <span class="web-vital-evaluation ${statusClass}">${statusText}</span></div>
+  `;
+}
+
+/**
+ * 生成性能预算检查结果HTML，对比、趋势和矩阵报告使用各自的表格样式
+ */
+export function generateBudgetSection(results: BudgetResult[], title: string = '性能预算', tableClass: string = 'stats-table'): string {
+  const failed = results.filter(result => !result.passed).length;
+  
+  return `
+    <div class="report-section">
+      <h2 class="section-title">${title}</h2>
+      <p class="${failed > 0 ? 'poor' : 'good'}" style="padding: 8px 12px; border-radius: 4px;">
+        ${failed > 0 ? `${failed}/${results.length} 项预算未通过` : `全部 ${results.length} 项预算通过`}
+      </p>
+      <table class="${tableClass}">
+        <thead>
+          <tr>
+            <th>指标</th>
+            <th>类型</th>
+            <th>实际值</th>
+            <th>阈值</th>
+            <th>结果</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${results.map(result => `
+            <tr>
+              <td>${getCategoryName(result.name)}</td>
+              <td>${getBudgetTypeName(result.type)}</td>
+              <td>${formatBudgetValue(result, result.actual)}</td>
+              <td>${formatBudgetValue(result, result.limit)}</td>
+              <td class="${result.passed ? 'good' : 'poor'}">${result.passed ? '✓ 通过' : '✗ 未通过'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * 生成多次测试统计信息表格HTML
+ */
+function generateStatsSection(stats: RunStats): string {
+  const formatValue = (key: string, value: number) => {
+    if (key === 'CLS') return value.toFixed(3);
+    if (key in stats.webVitals) return `${Math.round(value)}ms`;
+    return value.toFixed(1);
+  };
+  
+  const row = (key: string, label: string, metricStats: MetricStats) => `
+    <tr>
+      <td>${label}</td>
+      <td>${formatValue(key, metricStats.min)}</td>
+      <td>${formatValue(key, metricStats.max)}</td>
+      <td>${formatValue(key, metricStats.median)}</td>
+      <td>${formatValue(key, metricStats.p75)}</td>
+      <td>${formatValue(key, metricStats.stdDev)}</td>
+      <td class="${metricStats.cv > 0.1 ? 'high-variance' : ''}">${(metricStats.cv * 100).toFixed(1)}%</td>
+    </tr>
+  `;
+  
+  const rows = [
+    ...Object.entries(stats.scores).map(([category, metricStats]) => row(category, getCategoryName(category), metricStats)),
+    ...Object.entries(stats.webVitals).map(([key, metricStats]) => row(key, key, metricStats as MetricStats))
+  ].join('');
+  
+  return `
+    <div class="report-section">
+      <h2 class="section-title">多次测试统计</h2>
+      <p>变异系数（CV）超过10%的指标以红色标出，说明测试结果波动较大，建议增加测试次数。</p>
+      <table class="stats-table">
+        <thead>
+          <tr>
+            <th>指标</th>
+            <th>最小值</th>
+            <th>最大值</th>
+            <th>中位数</th>
+            <th>P75</th>
+            <th>标准差</th>
+            <th>变异系数</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
 /**
  * 获取分类名称的中文显示
  */
@@ -516,6 +688,8 @@ export async function generateTrendReport(historyData: any[], outputDir: string)
  */
 function generateTrendHtml(historyData: any[]): string {
   const historyJson = JSON.stringify(historyData);
+  // 历史数据按时间升序排列，预算结果取最近一次测试
+  const latest = historyData[historyData.length - 1];
   
   return `
   <!DOCTYPE html>
@@ -570,6 +744,27 @@ function generateTrendHtml(historyData: any[]): string {
         margin-top: 20px;
         margin-bottom: 40px;
       }
+      
+      .stats-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin-top: 20px;
+      }
+      
+      .stats-table th,
+      .stats-table td {
+        padding: 10px 12px;
+        text-align: left;
+        border-bottom: 1px solid #ddd;
+      }
+      
+      .good {
+        color: #0cce6b;
+      }
+      
+      .poor {
+        color: #ff4e42;
+      }
     </style>
   </head>
   <body>
@@ -598,6 +793,8 @@ function generateTrendHtml(historyData: any[]): string {
       </div>
     </div>
     
+    ${latest && latest.budgetResults ? generateBudgetSection(latest.budgetResults, '性能预算（最近一次测试）') : ''}
+    
     <script>
       // 历史数据
       const historyData = ${historyJson};
@@ -799,6 +996,300 @@ function generateTrendHtml(historyData: any[]): string {
   `;
 }
 
+/**
+ * 汇总报告中的单个URL条目
+ */
+export interface SummaryEntry {
+  url: string;
+  device: string;
+  throttling?: string; // 节流预设名称
+  timestamp: string;
+  scores: Record<string, number>;
+  webVitals: WebVitalsMetrics | null;
+  reportPath?: string; // 该URL的详细报告路径
+  error?: string; // 测试失败时的错误信息
+  budgetResults?: BudgetResult[]; // 性能预算检查结果
+}
+
+/**
+ * 汇总报告选项
+ */
+export interface SummaryReportOptions {
+  groupByPath?: boolean; // 按路径前缀分组显示
+  hostMap?: HostMap; // 测试时生效的主机映射，显示在报告头部
+}
+
+/**
+ * 生成批量测试汇总报告
+ */
+export async function generateSummaryReport(entries: SummaryEntry[], outputDir: string, options: SummaryReportOptions = {}): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/:/g, '-');
+  const reportPath = path.join(outputDir, `summary-report-${timestamp}.html`);
+  
+  // 生成HTML内容
+  const htmlContent = generateSummaryHtml(entries, outputDir, options);
+  
+  // 写入文件
+  await fs.writeFile(reportPath, htmlContent);
+  
+  return reportPath;
+}
+
+/**
+ * 生成汇总报告HTML
+ */
+function generateSummaryHtml(entries: SummaryEntry[], outputDir: string, options: SummaryReportOptions): string {
+  // 汇总所有URL中出现的分类
+  const categories = Array.from(new Set(entries.flatMap(entry => Object.keys(entry.scores))));
+  const webVitalKeys: Array<keyof WebVitalsMetrics> = ['FCP', 'LCP', 'CLS', 'TBT', 'TTFB'];
+  const failedCount = entries.filter(entry => entry.error).length;
+  const hasBudgets = entries.some(entry => entry.budgetResults);
+  const overBudgetCount = entries.filter(entry => entry.budgetResults && entry.budgetResults.some(result => !result.passed)).length;
+  // 测试了多种网络条件时显示网络列
+  const hasThrottling = new Set(entries.map(entry => entry.throttling)).size > 1;
+  
+  // 按路径前缀分组，未启用分组时所有URL为一组
+  const groups = new Map<string, SummaryEntry[]>();
+  for (const entry of entries) {
+    const key = options.groupByPath ? getPathPrefix(entry.url) : '';
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+  
+  const sections = Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([prefix, groupEntries]) => `
+    <div class="report-section">
+      <h2 class="section-title">${options.groupByPath ? `${prefix} (${groupEntries.length} 个页面)` : '各页面得分与 Web Vitals 指标'}</h2>
+      <table class="summary-table">
+        <thead>
+          <tr>
+            <th>URL</th>
+            <th>设备</th>
+            ${hasThrottling ? '<th>网络</th>' : ''}
+            ${categories.map(category => `<th>${getCategoryName(category)}</th>`).join('')}
+            ${webVitalKeys.map(key => `<th>${key}</th>`).join('')}
+            ${hasBudgets ? '<th>性能预算</th>' : ''}
+            <th>详细报告</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${generateSummaryRows(groupEntries, categories, webVitalKeys, outputDir, hasBudgets, hasThrottling)}
+          ${options.groupByPath ? generateGroupAverageRow(groupEntries, categories, webVitalKeys, hasBudgets, hasThrottling) : ''}
+        </tbody>
+      </table>
+    </div>
+    `).join('');
+  
+  return `
+  <!DOCTYPE html>
+  <html lang="zh-CN">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>批量测试汇总报告</title>
+    <style>
+      body {
+        font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+        line-height: 1.6;
+        color: #333;
+        max-width: 1400px;
+        margin: 0 auto;
+        padding: 20px;
+        background-color: #f5f5f5;
+      }
+      
+      .report-header {
+        background-color: white;
+        padding: 20px;
+        border-radius: 8px;
+        box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+        margin-bottom: 20px;
+      }
+      
+      .report-title {
+        color: #4285f4;
+        margin: 0;
+        font-size: 24px;
+      }
+      
+      .report-meta {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 20px;
+        margin-top: 10px;
+        color: #666;
+      }
+      
+      .report-section {
+        background-color: white;
+        padding: 20px;
+        border-radius: 8px;
+        box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+        margin-bottom: 20px;
+        overflow-x: auto;
+      }
+      
+      .section-title {
+        color: #4285f4;
+        border-bottom: 2px solid #f8f9fa;
+        padding-bottom: 10px;
+        margin-top: 0;
+      }
+      
+      .summary-table {
+        width: 100%;
+        border-collapse: collapse;
+      }
+      
+      .summary-table th,
+      .summary-table td {
+        padding: 10px 12px;
+        text-align: left;
+        border-bottom: 1px solid #ddd;
+      }
+      
+      .summary-table th {
+        background-color: #f8f9fa;
+        font-weight: bold;
+        color: #343a40;
+      }
+      
+      .url-cell {
+        word-break: break-all;
+        max-width: 360px;
+      }
+      
+      .good {
+        color: #34a853;
+        font-weight: bold;
+      }
+      
+      .needs-improvement {
+        color: #fbbc05;
+        font-weight: bold;
+      }
+      
+      .poor {
+        color: #ea4335;
+        font-weight: bold;
+      }
+      
+      .group-average td {
+        background-color: #f8f9fa;
+        font-weight: bold;
+      }
+    </style>
+  </head>
+  <body>
+    <div class="report-header">
+      <h1 class="report-title">批量测试汇总报告</h1>
+      <div class="report-meta">
+        <div><strong>测试时间:</strong> ${new Date().toLocaleString('zh-CN')}</div>
+        <div><strong>URL数量:</strong> ${entries.length}</div>
+        <div><strong>失败数量:</strong> ${failedCount}</div>
+        ${hasBudgets ? `<div><strong>未通过预算:</strong> ${overBudgetCount}</div>` : ''}
+        ${options.hostMap ? `<div><strong>主机映射:</strong> ${formatHostMap(options.hostMap).join('、')}</div>` : ''}
+      </div>
+    </div>
+    
+    ${sections}
+  </body>
+  </html>
+  `;
+}
+
+/**
+ * 生成汇总报告表格行
+ */
+function generateSummaryRows(entries: SummaryEntry[], categories: string[], webVitalKeys: Array<keyof WebVitalsMetrics>, outputDir: string, hasBudgets: boolean, hasThrottling: boolean): string {
+  return entries.map(entry => {
+    // 详细报告与汇总报告位于同一输出目录，使用相对路径链接
+    const link = entry.reportPath
+      ? `<a href="${path.relative(outputDir, entry.reportPath)}">查看详细报告</a>`
+      : '';
+    const throttlingCell = hasThrottling ? `<td>${entry.throttling ? getThrottlingLabel(entry.throttling) : '-'}</td>` : '';
+    
+    if (entry.error) {
+      return `
+        <tr>
+          <td class="url-cell">${entry.url}</td>
+          <td>${entry.device}</td>
+          ${throttlingCell}
+          <td colspan="${categories.length + webVitalKeys.length + (hasBudgets ? 1 : 0)}" class="poor">测试失败: ${entry.error}</td>
+          <td>${link}</td>
+        </tr>
+      `;
+    }
+    
+    const scoreCells = categories.map(category => {
+      const score = entry.scores[category];
+      if (score === undefined) return '<td>-</td>';
+      const scoreClass = score >= 90 ? 'good' : score >= 50 ? 'needs-improvement' : 'poor';
+      return `<td class="${scoreClass}">${score.toFixed(0)}</td>`;
+    }).join('');
+    
+    const webVitalCells = webVitalKeys.map(key => {
+      const value = entry.webVitals ? entry.webVitals[key] : null;
+      if (value === null) return '<td>-</td>';
+      return `<td>${key === 'CLS' ? value.toFixed(3) : `${Math.round(value)}ms`}</td>`;
+    }).join('');
+    
+    let budgetCell = '';
+    if (hasBudgets) {
+      const failed = entry.budgetResults ? entry.budgetResults.filter(result => !result.passed).length : 0;
+      budgetCell = !entry.budgetResults
+        ? '<td>-</td>'
+        : `<td class="${failed > 0 ? 'poor' : 'good'}">${failed > 0 ? `${failed} 项未通过` : '通过'}</td>`;
+    }
+    
+    return `
+      <tr>
+        <td class="url-cell">${entry.url}</td>
+        <td>${entry.device}</td>
+        ${throttlingCell}
+        ${scoreCells}
+        ${webVitalCells}
+        ${budgetCell}
+        <td>${link}</td>
+      </tr>
+    `;
+  }).join('');
+}
+
+/**
+ * 生成分组平均值行
+ */
+function generateGroupAverageRow(entries: SummaryEntry[], categories: string[], webVitalKeys: Array<keyof WebVitalsMetrics>, hasBudgets: boolean, hasThrottling: boolean): string {
+  const succeeded = entries.filter(entry => !entry.error);
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  
+  const scoreCells = categories.map(category => {
+    const score = average(succeeded.map(entry => entry.scores[category]).filter(value => value !== undefined));
+    return `<td>${score === null ? '-' : score.toFixed(0)}</td>`;
+  }).join('');
+  
+  const webVitalCells = webVitalKeys.map(key => {
+    const values = succeeded
+      .map(entry => entry.webVitals ? entry.webVitals[key] : null)
+      .filter((value): value is number => value !== null);
+    const value = average(values);
+    if (value === null) return '<td>-</td>';
+    return `<td>${key === 'CLS' ? value.toFixed(3) : `${Math.round(value)}ms`}</td>`;
+  }).join('');
+  
+  return `
+    <tr class="group-average">
+      <td>分组平均</td>
+      <td></td>
+      ${hasThrottling ? '<td></td>' : ''}
+      ${scoreCells}
+      ${webVitalCells}
+      ${hasBudgets ? '<td></td>' : ''}
+      <td></td>
+    </tr>
+  `;
+}
+
 /**
  * 生成性能对比报告
  */
@@ -0,0 +1,126 @@
+/**
+ * 请求设置模块
+ * 将配置中的HTTP头、Cookie和屏蔽的URL模式同时应用到Lighthouse和Playwright浏览器上下文
+ */
+
+import { chromium, BrowserContext } from '@playwright/test';
+
+/**
+ * 测试前设置的Cookie
+ */
+export interface CookieConfig {
+  name: string;
+  value: string;
+  domain?: string; // 默认为被测URL的域名
+  path?: string; // 默认为/
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+/**
+ * 每个请求使用的HTTP头、Cookie和屏蔽的URL模式
+ */
+export interface RequestSettings {
+  headers?: Record<string, string>; // 附加的HTTP头，如Authorization
+  cookies?: CookieConfig[];
+  blockedUrlPatterns?: string[]; // 屏蔽匹配这些模式的请求，*匹配任意字符，如*google-analytics.com*
+}
+
+type PlaywrightCookie = Parameters<BrowserContext['addCookies']>[0][number];
+
+// 记录时隐藏值的HTTP头，避免认证信息写入历史数据
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+const MASKED_VALUE = '***';
+
+/**
+ * 转换为Lighthouse的extraHeaders和blockedUrlPatterns设置
+ * Cookie不通过请求头发送（请求头会发送给包括第三方在内的所有请求），而是由setChromeCookies按域名设置
+ */
+export function getLighthouseRequestSettings(settings: RequestSettings): { extraHeaders?: Record<string, string>; blockedUrlPatterns?: string[] } {
+  return {
+    ...(settings.headers && Object.keys(settings.headers).length > 0 ? { extraHeaders: { ...settings.headers } } : {}),
+    ...(settings.blockedUrlPatterns && settings.blockedUrlPatterns.length > 0 ? { blockedUrlPatterns: settings.blockedUrlPatterns } : {})
+  };
+}
+
+/**
+ * 在Lighthouse使用的Chrome的默认上下文中设置Cookie，浏览器只会将Cookie发送给所属的域名
+ * Lighthouse每次测试前清除的存储类型不包括Cookie，设置一次即可用于之后的所有测试
+ */
+export async function setChromeCookies(cdpUrl: string, cookies: CookieConfig[], urls: string[]): Promise<void> {
+  const browser = await chromium.connectOverCDP(cdpUrl);
+  try {
+    // 使用默认上下文，Lighthouse打开的标签页也在该上下文中
+    await browser.contexts()[0].addCookies(toPlaywrightCookies(cookies, urls));
+  } finally {
+    // 断开CDP连接，不会关闭Chrome
+    await browser.close();
+  }
+}
+
+/**
+ * 在Playwright浏览器上下文中设置HTTP头和Cookie，并屏蔽匹配的请求
+ * 未指定域名的Cookie设置在被测URL上
+ */
+export async function applyRequestSettings(context: BrowserContext, settings: RequestSettings, url: string): Promise<void> {
+  if (settings.headers && Object.keys(settings.headers).length > 0) {
+    await context.setExtraHTTPHeaders(settings.headers);
+  }
+  
+  if (settings.cookies && settings.cookies.length > 0) {
+    await context.addCookies(toPlaywrightCookies(settings.cookies, [url]));
+  }
+  
+  const patterns = settings.blockedUrlPatterns || [];
+  if (patterns.length > 0) {
+    await context.route(
+      requestUrl => patterns.some(pattern => matchesUrlPattern(requestUrl.href, pattern)),
+      route => route.abort('blockedbyclient')
+    );
+  }
+}
+
+/**
+ * 转换为Playwright的Cookie，未指定域名的Cookie分别设置在每个URL所在的域名上
+ */
+function toPlaywrightCookies(cookies: CookieConfig[], urls: string[]): PlaywrightCookie[] {
+  return cookies.flatMap(({ domain, path = '/', ...cookie }): PlaywrightCookie[] => domain
+    ? [{ ...cookie, domain, path }]
+    : [...new Set(urls.map(url => new URL(path, url).href))].map(url => ({ ...cookie, url })));
+}
+
+/**
+ * 判断URL是否匹配屏蔽模式，与Chrome DevTools的规则相同：*匹配任意字符，模式可以匹配URL的任意部分
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  let position = 0;
+  for (const part of pattern.split('*')) {
+    if (!part) continue;
+    const index = url.indexOf(part, position);
+    if (index === -1) return false;
+    position = index + part.length;
+  }
+  return true;
+}
+
+/**
+ * 获取用于记录的请求设置，认证相关的HTTP头和Cookie只保留名称
+ */
+export function getRecordedRequestSettings(settings: RequestSettings): RequestSettings | undefined {
+  const recorded: RequestSettings = {};
+  if (settings.headers && Object.keys(settings.headers).length > 0) recorded.headers = maskHeaders(settings.headers);
+  if (settings.cookies && settings.cookies.length > 0) recorded.cookies = settings.cookies.map(cookie => ({ ...cookie, value: MASKED_VALUE }));
+  if (settings.blockedUrlPatterns && settings.blockedUrlPatterns.length > 0) recorded.blockedUrlPatterns = settings.blockedUrlPatterns;
+  return Object.keys(recorded).length > 0 ? recorded : undefined;
+}
+
+/**
+ * 隐藏认证相关HTTP头的值
+ */
+export function maskHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+    name,
+    SENSITIVE_HEADERS.includes(name.toLowerCase()) ? MASKED_VALUE : value
+  ]));
+}
@@ -0,0 +1,70 @@
+/**
+ * 测试前置脚本模块
+ * 通过CDP将Playwright连接到Lighthouse使用的Chrome，执行登录等准备步骤
+ */
+
+import { chromium, BrowserContext, Page } from '@playwright/test';
+import * as path from 'path';
+import { Logger } from './cli';
+
+// Playwright保存的Cookie和localStorage状态
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface SetupScriptContext {
+  url: string; // 第一个待测试的URL
+  logger: Logger;
+}
+
+/**
+ * 前置脚本需要默认导出的函数签名
+ */
+export type SetupScript = (page: Page, context: SetupScriptContext) => Promise<void>;
+
+/**
+ * 在Lighthouse使用的Chrome中运行前置脚本
+ * 脚本留下的Cookie和localStorage会保留在该Chrome的默认上下文中供Lighthouse复用
+ */
+export async function runSetupScript(scriptPath: string, cdpUrl: string, context: SetupScriptContext): Promise<StorageState> {
+  const { logger } = context;
+  const script = loadScriptModule<SetupScript>(scriptPath);
+  
+  if (typeof script !== 'function') {
+    throw new Error(`前置脚本 ${scriptPath} 必须默认导出一个函数`);
+  }
+  
+  logger.info(`通过 ${cdpUrl} 连接Chrome并执行前置脚本: ${scriptPath}`);
+  const browser = await chromium.connectOverCDP(cdpUrl);
+  
+  try {
+    // 使用默认上下文，Lighthouse打开的标签页也在该上下文中
+    const browserContext = browser.contexts()[0];
+    const page = await browserContext.newPage();
+    
+    try {
+      await script(page, context);
+    } finally {
+      await page.close();
+    }
+    
+    const storageState = await browserContext.storageState();
+    logger.success(`前置脚本执行完成，已保存 ${storageState.cookies.length} 个Cookie`);
+    return storageState;
+  } finally {
+    // 断开CDP连接，不会关闭由chrome-launcher启动的Chrome
+    await browser.close();
+  }
+}
+
+/**
+ * 加载用户脚本模块的默认导出，TypeScript脚本在需要时通过ts-node注册加载
+ */
+export function loadScriptModule<T>(scriptPath: string): T {
+  const resolvedPath = path.resolve(process.cwd(), scriptPath);
+  
+  if (/\.tsx?$/.test(resolvedPath) && !(process as any)[Symbol.for('ts-node.register.instance')]) {
+    require('ts-node').register({ transpileOnly: true });
+  }
+  
+  const loaded = require(resolvedPath);
+  return loaded && loaded.default !== undefined ? loaded.default : loaded;
+}
@@ -0,0 +1,236 @@
+/**
+ * 静态文件服务器模块
+ * 在本地提供前端构建产物目录，支持单页应用回退和gzip/brotli压缩，用于部署前的测试
+ */
+
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { promisify } from 'util';
+
+/**
+ * 静态文件服务器配置
+ */
+export interface ServeConfig {
+  dir: string; // 静态文件目录，路径相对于当前工作目录
+  port?: number; // 监听端口，默认为8080
+  spa?: boolean; // 未找到的页面返回index.html（单页应用回退），默认为true
+  compression?: boolean; // 按Accept-Encoding使用brotli或gzip压缩文本资源，默认为true
+}
+
+/**
+ * 运行中的静态文件服务器
+ */
+export interface StaticServer {
+  url: string; // 服务器地址，如http://127.0.0.1:8080
+  root: string; // 静态文件目录的绝对路径
+  close(): Promise<void>;
+}
+
+// 默认监听端口，固定端口使每次测试的URL相同，历史数据和基准结果才能对应
+export const DEFAULT_SERVE_PORT = 8080;
+
+// 只监听本机地址，不对外提供构建产物
+const SERVE_HOST = '127.0.0.1';
+
+// 常见静态资源的Content-Type
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.wasm': 'application/wasm',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf'
+};
+
+// 需要压缩的资源类型，图片、字体和视频本身已经压缩
+const COMPRESSIBLE_TYPE_PATTERN = /^(text\/|application\/(json|javascript|xml|manifest\+json|wasm)|image\/svg\+xml)/;
+
+type Encoding = 'br' | 'gzip';
+
+// 预压缩文件的扩展名，构建工具生成的.br/.gz文件优先于实时压缩
+const PRECOMPRESSED_EXTENSIONS: Record<Encoding, string> = {
+  br: '.br',
+  gzip: '.gz'
+};
+
+// 实时压缩使用中等压缩级别，与常见CDN的设置接近，且不会明显拖慢首次请求
+const COMPRESSORS: Record<Encoding, (data: Buffer) => Promise<Buffer>> = {
+  br: data => promisify(zlib.brotliCompress)(data, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 } }),
+  gzip: data => promisify(zlib.gzip)(data, { level: 6 })
+};
+
+/**
+ * 填入静态文件服务器配置的默认值，目录转换为绝对路径
+ */
+export function resolveServeConfig(serve: string | ServeConfig): Required<ServeConfig> {
+  const config = typeof serve === 'string' ? { dir: serve } : serve;
+  return {
+    dir: path.resolve(process.cwd(), config.dir),
+    port: config.port ?? DEFAULT_SERVE_PORT,
+    spa: config.spa !== false,
+    compression: config.compression !== false
+  };
+}
+
+/**
+ * 启动静态文件服务器，目录不存在或端口被占用时抛出错误
+ */
+export async function startStaticServer(serve: string | ServeConfig): Promise<StaticServer> {
+  const config = resolveServeConfig(serve);
+  const stat = await fs.stat(config.dir).catch(() => null);
+  if (!stat || !stat.isDirectory()) {
+    throw new Error(`静态文件目录不存在: ${config.dir}`);
+  }
+  
+  // 压缩结果按文件缓存，多次测试时不重复压缩
+  const cache = new Map<string, Buffer>();
+  const server = http.createServer((request, response) => {
+    handleRequest(request, response, config, cache).catch(() => {
+      if (response.headersSent) {
+        response.destroy();
+      } else {
+        response.writeHead(500).end();
+      }
+    });
+  });
+  
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (error: NodeJS.ErrnoException) => reject(error.code === 'EADDRINUSE'
+      ? new Error(`静态文件服务器端口 ${config.port} 已被占用，请通过port指定其他端口`)
+      : error));
+    server.listen(config.port, SERVE_HOST, () => resolve());
+  });
+  
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://${SERVE_HOST}:${port}`,
+    root: config.dir,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      // Chrome保持的长连接会阻止服务器关闭
+      server.closeAllConnections();
+    })
+  };
+}
+
+/**
+ * 处理单个请求：只支持GET和HEAD，文本资源按Accept-Encoding压缩
+ */
+async function handleRequest(request: http.IncomingMessage, response: http.ServerResponse, config: Required<ServeConfig>, cache: Map<string, Buffer>): Promise<void> {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    response.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return;
+  }
+  
+  const filePath = await resolveFilePath(request, config);
+  if (!filePath) {
+    response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not Found');
+    return;
+  }
+  
+  const contentType = MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+  const headers: http.OutgoingHttpHeaders = { 'Content-Type': contentType };
+  let body: Buffer;
+  
+  const compressible = config.compression && COMPRESSIBLE_TYPE_PATTERN.test(contentType);
+  const encoding = compressible ? selectEncoding(String(request.headers['accept-encoding'] || '')) : null;
+  if (compressible) {
+    headers.Vary = 'Accept-Encoding';
+  }
+  if (encoding) {
+    headers['Content-Encoding'] = encoding;
+    body = await getCompressedBody(filePath, encoding, cache);
+  } else {
+    body = await fs.readFile(filePath);
+  }
+  headers['Content-Length'] = body.length;
+  
+  response.writeHead(200, headers);
+  response.end(request.method === 'HEAD' ? undefined : body);
+}
+
+/**
+ * 将请求路径解析为目录中的文件，依次尝试文件本身、目录下的index.html和加上.html的文件
+ * 单页应用回退时，请求HTML页面的未知路径返回根目录的index.html
+ */
+async function resolveFilePath(request: http.IncomingMessage, config: Required<ServeConfig>): Promise<string | null> {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname);
+  } catch {
+    return null;
+  }
+  
+  // 不允许访问目录之外的文件
+  const filePath = path.join(config.dir, pathname);
+  if (filePath !== config.dir && !filePath.startsWith(config.dir + path.sep)) {
+    return null;
+  }
+  
+  for (const candidate of [filePath, path.join(filePath, 'index.html'), `${filePath}.html`]) {
+    if (await isFile(candidate)) return candidate;
+  }
+  
+  const acceptsHtml = (request.headers.accept || '').includes('text/html');
+  const indexPath = path.join(config.dir, 'index.html');
+  if (config.spa && acceptsHtml && await isFile(indexPath)) {
+    return indexPath;
+  }
+  
+  return null;
+}
+
+/**
+ * 按Accept-Encoding选择压缩方式，brotli优先
+ */
+function selectEncoding(acceptEncoding: string): Encoding | null {
+  const accepted = acceptEncoding.split(',').map(value => value.split(';')[0].trim().toLowerCase());
+  if (accepted.includes('br')) return 'br';
+  if (accepted.includes('gzip')) return 'gzip';
+  return null;
+}
+
+/**
+ * 获取压缩后的文件内容，存在预压缩文件时直接使用
+ */
+async function getCompressedBody(filePath: string, encoding: Encoding, cache: Map<string, Buffer>): Promise<Buffer> {
+  const key = `${encoding}:${filePath}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+  
+  const precompressedPath = filePath + PRECOMPRESSED_EXTENSIONS[encoding];
+  const body = await isFile(precompressedPath)
+    ? await fs.readFile(precompressedPath)
+    : await COMPRESSORS[encoding](await fs.readFile(filePath));
+  cache.set(key, body);
+  return body;
+}
+
+// 判断路径是否为存在的文件
+async function isFile(filePath: string): Promise<boolean> {
+  const stat = await fs.stat(filePath).catch(() => null);
+  return !!stat && stat.isFile();
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { mannWhitneyU } from './statistics';
+
+test('每组3个样本且完全分开时使用精确分布，p值为0.1', () => {
+  const result = mannWhitneyU([1000, 1010, 1020], [1200, 1210, 1220])!;
+  assert.strictEqual(result.exact, true);
+  assert.strictEqual(result.u, 0);
+  assert.ok(Math.abs(result.pValue - 0.1) < 1e-9);
+  // 每组3个样本时无论差异多大都达不到0.05的显著性水平
+  assert.ok(Math.abs(result.minPValue - 0.1) < 1e-9);
+});
+
+test('每组4个样本且完全分开时达到显著性水平', () => {
+  const result = mannWhitneyU([1, 2, 3, 4], [5, 6, 7, 8])!;
+  assert.strictEqual(result.exact, true);
+  assert.ok(Math.abs(result.pValue - 2 / 70) < 1e-9);
+  assert.ok(result.pValue < 0.05);
+});
+
+test('精确分布的p值与查表结果一致', () => {
+  // n1=n2=5, U=3 时双侧p值为 2 * 7 / 252（U取0到3的排列数分别为1、1、2、3）
+  const result = mannWhitneyU([1, 2, 3, 5, 7], [4, 6, 8, 9, 10])!;
+  assert.strictEqual(result.u, 3);
+  assert.ok(Math.abs(result.pValue - 14 / 252) < 1e-9);
+});
+
+test('存在相同数值时使用正态近似', () => {
+  const result = mannWhitneyU([90, 90, 91, 92], [95, 95, 96, 97])!;
+  assert.strictEqual(result.exact, false);
+  assert.ok(result.pValue > 0 && result.pValue < 0.05);
+});
+
+test('两组数值完全相同时p值为1', () => {
+  const result = mannWhitneyU([100, 100, 100], [100, 100, 100])!;
+  assert.strictEqual(result.pValue, 1);
+});
+
+test('任一组少于2个样本时返回null', () => {
+  assert.strictEqual(mannWhitneyU([1], [2, 3]), null);
+});
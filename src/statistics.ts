@@ -0,0 +1,253 @@
+/**
+ * 统计工具模块
+ * 计算多次测试结果的中位数、百分位数和离散程度
+ */
+
+import { WebVitalsMetrics } from './webVitals';
+
+export interface MetricStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p75: number;
+  stdDev: number; // 样本标准差
+  cv: number; // 变异系数（标准差 / 平均值）
+}
+
+/**
+ * 多次测试的统计结果
+ */
+export interface RunStats {
+  scores: Record<string, MetricStats>;
+  webVitals: Partial<Record<keyof WebVitalsMetrics, MetricStats>>;
+}
+
+/**
+ * 计算一组数值的统计信息，空数组返回null
+ */
+export function computeStats(values: number[]): MetricStats | null {
+  if (values.length === 0) return null;
+  
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.length > 1
+    ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1)
+    : 0;
+  const stdDev = Math.sqrt(variance);
+  
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    stdDev,
+    cv: mean !== 0 ? stdDev / mean : 0
+  };
+}
+
+/**
+ * 计算已排序数组的百分位数（线性插值）
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * 计算各分类得分和各Web Vitals指标的统计信息
+ */
+export function computeRunStats(scoreRuns: Array<Record<string, number>>, metricRuns: WebVitalsMetrics[]): RunStats {
+  const scores: Record<string, MetricStats> = {};
+  const categories = new Set(scoreRuns.flatMap(run => Object.keys(run)));
+  for (const category of categories) {
+    const stats = computeStats(scoreRuns.map(run => run[category]).filter(value => value !== undefined));
+    if (stats) scores[category] = stats;
+  }
+  
+  const webVitals: RunStats['webVitals'] = {};
+  const keys = metricRuns.length > 0 ? Object.keys(metricRuns[0]) as Array<keyof WebVitalsMetrics> : [];
+  for (const key of keys) {
+    const stats = computeStats(metricRuns.map(run => run[key]).filter((value): value is number => value !== null));
+    if (stats) webVitals[key] = stats;
+  }
+  
+  return { scores, webVitals };
+}
+
+/**
+ * 选出最具代表性的一次测试（与Lighthouse CI相同的算法）
+ * 取FCP和TTI都最接近中位数的一次，返回其在数组中的下标
+ */
+export function selectRepresentativeRun(metricRuns: WebVitalsMetrics[]): number {
+  const medianOf = (key: keyof WebVitalsMetrics) => {
+    const stats = computeStats(metricRuns.map(run => run[key]).filter((value): value is number => value !== null));
+    return stats ? stats.median : null;
+  };
+  const medianFcp = medianOf('FCP');
+  const medianTti = medianOf('TTI');
+  
+  // 与中位数的相对距离的平方和，缺失的指标不参与计算
+  const distance = (run: WebVitalsMetrics) => {
+    let sum = 0;
+    if (medianFcp && run.FCP !== null) sum += ((medianFcp - run.FCP) / medianFcp) ** 2;
+    if (medianTti && run.TTI !== null) sum += ((medianTti - run.TTI) / medianTti) ** 2;
+    return sum;
+  };
+  
+  let bestIndex = 0;
+  metricRuns.forEach((run, index) => {
+    if (distance(run) < distance(metricRuns[bestIndex])) {
+      bestIndex = index;
+    }
+  });
+  
+  return bestIndex;
+}
+
+// 95%置信水平下t分布的双侧临界值，下标为自由度
+const T_CRITICAL_95 = [
+  NaN, 12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+export interface ConfidenceInterval {
+  mean: number;
+  lower: number;
+  upper: number;
+  width: number;
+}
+
+/**
+ * 计算平均值的95%置信区间（t分布），少于2个样本时返回null
+ */
+export function confidenceInterval(values: number[]): ConfidenceInterval | null {
+  const stats = computeStats(values);
+  if (!stats || stats.count < 2) return null;
+  
+  const degrees = stats.count - 1;
+  const t = degrees < T_CRITICAL_95.length ? T_CRITICAL_95[degrees] : 1.96;
+  const halfWidth = t * stats.stdDev / Math.sqrt(stats.count);
+  
+  return {
+    mean: stats.mean,
+    lower: stats.mean - halfWidth,
+    upper: stats.mean + halfWidth,
+    width: halfWidth * 2
+  };
+}
+
+export interface MannWhitneyResult {
+  u: number;
+  z: number;
+  pValue: number; // 双侧p值
+  minPValue: number; // 当前样本数下可能得到的最小p值，两组完全分开时取得
+  exact: boolean; // 是否使用精确分布计算p值
+}
+
+// 两组样本数都不超过该值且没有相同数值时使用U的精确分布，正态近似在小样本下p值偏大
+const EXACT_MAX_SAMPLES = 20;
+
+/**
+ * 两组独立样本的Mann-Whitney U检验
+ * 小样本且没有相同数值时使用U的精确分布，否则使用正态近似（含连续性校正和同秩校正）
+ * 不要求数据服从正态分布，适合Lighthouse这类有长尾的测量结果；任一组少于2个样本时返回null
+ */
+export function mannWhitneyU(a: number[], b: number[]): MannWhitneyResult | null {
+  if (a.length < 2 || b.length < 2) return null;
+  
+  const combined = [
+    ...a.map(value => ({ value, group: 0 })),
+    ...b.map(value => ({ value, group: 1 }))
+  ].sort((x, y) => x.value - y.value);
+  
+  // 相同数值取平均秩，并累计同秩校正项
+  const ranks: number[] = new Array(combined.length);
+  let tieCorrection = 0;
+  for (let i = 0; i < combined.length;) {
+    let j = i;
+    while (j + 1 < combined.length && combined[j + 1].value === combined[i].value) j++;
+    for (let k = i; k <= j; k++) ranks[k] = (i + j) / 2 + 1;
+    const ties = j - i + 1;
+    tieCorrection += ties ** 3 - ties;
+    i = j + 1;
+  }
+  
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  const rankSum = combined.reduce((sum, item, index) => item.group === 0 ? sum + ranks[index] : sum, 0);
+  const u1 = rankSum - n1 * (n1 + 1) / 2;
+  const u = Math.min(u1, n1 * n2 - u1);
+  
+  const mean = n1 * n2 / 2;
+  const variance = (n1 * n2 / 12) * ((n + 1) - tieCorrection / (n * (n - 1)));
+  if (variance <= 0) return { u, z: 0, pValue: 1, minPValue: 1, exact: false };
+  
+  const zOf = (value: number) => Math.max(0, Math.abs(value - mean) - 0.5) / Math.sqrt(variance);
+  const z = zOf(u1);
+  
+  if (tieCorrection === 0 && n1 <= EXACT_MAX_SAMPLES && n2 <= EXACT_MAX_SAMPLES) {
+    const distribution = exactUDistribution(n1, n2);
+    const total = distribution.reduce((sum, count) => sum + count, 0);
+    const lowerTail = distribution.slice(0, u + 1).reduce((sum, count) => sum + count, 0);
+    return {
+      u,
+      z,
+      pValue: Math.min(1, 2 * lowerTail / total),
+      minPValue: Math.min(1, 2 * distribution[0] / total),
+      exact: true
+    };
+  }
+  
+  return {
+    u,
+    z,
+    pValue: Math.min(1, 2 * (1 - normalCdf(z))),
+    minPValue: Math.min(1, 2 * (1 - normalCdf(zOf(0)))),
+    exact: false
+  };
+}
+
+/**
+ * 没有相同数值时U统计量的精确分布，返回U取0到n1*n2各值的排列数
+ * 递推关系：f(m, n, u) = f(m - 1, n, u - n) + f(m, n - 1, u)
+ */
+function exactUDistribution(n1: number, n2: number): number[] {
+  const cache = new Map<string, number[]>();
+  
+  const distribution = (m: number, n: number): number[] => {
+    if (m === 0 || n === 0) return [1];
+    const key = `${m},${n}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+    
+    const withoutLargestFirst = distribution(m - 1, n);
+    const withoutLargestSecond = distribution(m, n - 1);
+    const counts = new Array(m * n + 1).fill(0);
+    withoutLargestFirst.forEach((count, u) => counts[u + n] += count);
+    withoutLargestSecond.forEach((count, u) => counts[u] += count);
+    cache.set(key, counts);
+    return counts;
+  };
+  
+  return distribution(n1, n2);
+}
+
+/**
+ * 标准正态分布的累积分布函数（Abramowitz-Stegun近似）
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+}
@@ -0,0 +1,33 @@
+/**
+ * 第三方影响模块
+ * 将配置中的第三方域名分组转换为屏蔽规则，用于对比屏蔽每组第三方资源前后的得分和Web Vitals
+ */
+
+/**
+ * 第三方域名分组，组名对应一组域名，如 { analytics: ['google-analytics.com', 'googletagmanager.com'] }
+ */
+export type ThirdPartyConfig = Record<string, string[]>;
+
+/**
+ * 屏蔽一组第三方域名对单个测试目标的影响，变化均为屏蔽后减去正常加载（取中位数）
+ */
+export interface ThirdPartyImpact {
+  url: string;
+  device: string;
+  throttling: string;
+  group: string; // 第三方域名分组名称
+  domains: string[];
+  scoreDiffs: Record<string, number>; // 得分的变化，为正表示这组第三方资源拉低了得分
+  webVitalsDiffs: Record<string, { absolute: number, percentage: number, improved: boolean }>; // Web Vitals的变化，为负表示这组第三方资源拖慢了页面
+  reportPath: string; // 正常加载与屏蔽后的对比报告
+}
+
+/**
+ * 将域名转换为屏蔽规则，同时匹配该域名及其子域名
+ * 包含*或/的值视为完整的屏蔽规则，原样使用
+ */
+export function getThirdPartyPatterns(domains: string[]): string[] {
+  return domains.flatMap(domain => /[*/]/.test(domain)
+    ? [domain]
+    : [`*://${domain}/*`, `*.${domain}/*`]);
+}
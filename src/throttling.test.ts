@@ -0,0 +1,14 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { resolveThrottling, THROTTLING_PRESETS } from './throttling';
+
+test('provided方式下节流预设不起作用，记录为不节流', () => {
+  assert.deepStrictEqual(resolveThrottling('slow-3g', 'provided'), { name: 'none', method: 'provided', settings: THROTTLING_PRESETS.none.settings });
+  assert.strictEqual(resolveThrottling({ rttMs: 10 }, 'provided').name, 'none');
+  assert.strictEqual(resolveThrottling(undefined, 'provided').name, 'none');
+});
+
+test('其他节流方式保留预设名称', () => {
+  assert.strictEqual(resolveThrottling('slow-3g', 'devtools').name, 'slow-3g');
+  assert.strictEqual(resolveThrottling({ rttMs: 10 }).name, 'custom');
+});
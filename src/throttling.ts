@@ -0,0 +1,128 @@
+/**
+ * 网络节流模块
+ * 提供常用的网络节流预设，并转换为Lighthouse的节流设置
+ */
+
+export type ThrottlingMethod = 'simulate' | 'devtools' | 'provided';
+
+/**
+ * 网络和CPU节流参数
+ */
+export interface ThrottlingSettings {
+  cpuSlowdownMultiplier: number;
+  downloadThroughputKbps: number;
+  uploadThroughputKbps: number;
+  rttMs: number; // 往返延迟
+}
+
+/**
+ * 节流配置：预设名称，或自定义的节流参数（未设置的参数使用默认预设的值）
+ */
+export type ThrottlingConfig = string | Partial<ThrottlingSettings>;
+
+/**
+ * 解析后的节流设置
+ */
+export interface ThrottlingProfile {
+  name: string; // 预设名称，自定义参数时为custom
+  method: ThrottlingMethod;
+  settings: ThrottlingSettings;
+}
+
+interface ThrottlingPreset {
+  label: string;
+  settings: ThrottlingSettings;
+  method?: ThrottlingMethod; // 预设要求的节流方式
+}
+
+// 网络节流预设，网络参数参考Lighthouse和WebPageTest的常用配置
+export const THROTTLING_PRESETS: Record<string, ThrottlingPreset> = {
+  'slow-3g': {
+    label: '慢速3G',
+    settings: { cpuSlowdownMultiplier: 4, downloadThroughputKbps: 400, uploadThroughputKbps: 400, rttMs: 400 }
+  },
+  'slow-4g': {
+    label: '慢速4G',
+    settings: { cpuSlowdownMultiplier: 4, downloadThroughputKbps: 1638.4, uploadThroughputKbps: 768, rttMs: 150 }
+  },
+  'fast-4g': {
+    label: '快速4G',
+    settings: { cpuSlowdownMultiplier: 4, downloadThroughputKbps: 9000, uploadThroughputKbps: 9000, rttMs: 60 }
+  },
+  'cable': {
+    label: '有线宽带',
+    settings: { cpuSlowdownMultiplier: 1, downloadThroughputKbps: 5000, uploadThroughputKbps: 1000, rttMs: 28 }
+  },
+  'none': {
+    label: '不节流',
+    settings: { cpuSlowdownMultiplier: 1, downloadThroughputKbps: 0, uploadThroughputKbps: 0, rttMs: 0 },
+    // 不节流时由Lighthouse直接使用实际的网络和CPU
+    method: 'provided'
+  }
+};
+
+// 未配置节流时使用的预设，与Lighthouse移动端的默认设置一致
+export const DEFAULT_THROTTLING_PRESET = 'slow-4g';
+
+// Lighthouse在devtools方式下将往返延迟和带宽换算为请求级参数的系数
+const DEVTOOLS_RTT_ADJUSTMENT_FACTOR = 3.75;
+const DEVTOOLS_THROUGHPUT_ADJUSTMENT_FACTOR = 0.9;
+
+/**
+ * 将节流配置解析为节流设置
+ * 预设要求的节流方式优先（不节流只能使用provided），其次为指定的方式，默认为simulate
+ * provided方式不做任何节流，此时节流参数不起作用，结果和历史数据都记录为不节流
+ */
+export function resolveThrottling(config: ThrottlingConfig = DEFAULT_THROTTLING_PRESET, method?: ThrottlingMethod): ThrottlingProfile {
+  if (method === 'provided') {
+    return { name: 'none', method, settings: { ...THROTTLING_PRESETS.none.settings } };
+  }
+  
+  if (typeof config !== 'string') {
+    return {
+      name: 'custom',
+      method: method || 'simulate',
+      settings: { ...THROTTLING_PRESETS[DEFAULT_THROTTLING_PRESET].settings, ...config }
+    };
+  }
+  
+  const preset = THROTTLING_PRESETS[config];
+  if (!preset) {
+    throw new Error(`未知的节流预设: ${config}，可选值: ${Object.keys(THROTTLING_PRESETS).join(', ')}`);
+  }
+  return { name: config, method: preset.method || method || 'simulate', settings: { ...preset.settings } };
+}
+
+/**
+ * 获取节流设置的显示名称
+ */
+export function getThrottlingLabel(name: string): string {
+  return THROTTLING_PRESETS[name] ? THROTTLING_PRESETS[name].label : name === 'custom' ? '自定义' : name;
+}
+
+/**
+ * 转换为Lighthouse的节流设置
+ * simulate方式使用往返延迟和下载带宽，devtools方式使用换算后的请求级延迟和上下行带宽
+ */
+export function getLighthouseThrottling(profile: ThrottlingProfile) {
+  const { cpuSlowdownMultiplier, downloadThroughputKbps, uploadThroughputKbps, rttMs } = profile.settings;
+  return {
+    throttlingMethod: profile.method,
+    throttling: {
+      rttMs,
+      throughputKbps: downloadThroughputKbps,
+      requestLatencyMs: rttMs * DEVTOOLS_RTT_ADJUSTMENT_FACTOR,
+      downloadThroughputKbps: downloadThroughputKbps * DEVTOOLS_THROUGHPUT_ADJUSTMENT_FACTOR,
+      uploadThroughputKbps: uploadThroughputKbps * DEVTOOLS_THROUGHPUT_ADJUSTMENT_FACTOR,
+      cpuSlowdownMultiplier
+    }
+  };
+}
+
+/**
+ * 按网络从快到慢排序节流设置，不节流排在最前
+ */
+export function compareThrottlingSpeed(a: ThrottlingProfile, b: ThrottlingProfile): number {
+  const speed = (profile: ThrottlingProfile) => profile.method === 'provided' ? Infinity : profile.settings.downloadThroughputKbps;
+  return speed(b) - speed(a) || a.settings.rttMs - b.settings.rttMs;
+}
@@ -0,0 +1,245 @@
+/**
+ * Lighthouse用户流程模块
+ * 使用Playwright编写的操作步骤驱动Lighthouse的navigation、timespan和snapshot测试
+ */
+
+import { chromium, Browser, Page } from '@playwright/test';
+import puppeteer from 'puppeteer-core';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Logger, formatScore, formatWebVital } from './cli';
+import { extractWebVitals, WebVitalsMetrics } from './webVitals';
+import { loadScriptModule } from './setupScript';
+import { loadLighthouseConfig } from './lighthouseSettings';
+
+export type FlowStepType = 'navigation' | 'timespan' | 'snapshot';
+
+/**
+ * 用户流程中的单个步骤
+ * navigation步骤可以直接指定url，也可以在action中通过页面交互触发导航
+ */
+export interface FlowStep {
+  type: FlowStepType;
+  name: string;
+  url?: string;
+  action?: (page: Page) => Promise<void>;
+}
+
+/**
+ * 用户流程脚本需要默认导出的定义
+ */
+export interface FlowDefinition {
+  name: string;
+  steps: FlowStep[];
+}
+
+export interface FlowStepResult {
+  name: string;
+  type: FlowStepType;
+  scores: Record<string, number>;
+  metrics: WebVitalsMetrics;
+}
+
+export interface FlowRunResult {
+  name: string;
+  device: string;
+  timestamp: string;
+  steps: FlowStepResult[];
+  reportPath: string;
+  webVitalsPath: string;
+}
+
+export interface FlowRunOptions {
+  cdpUrl: string; // Lighthouse使用的Chrome的远程调试地址
+  device: string;
+  flags: Record<string, any>; // 每个步骤共用的Lighthouse设置
+  outputDir: string;
+  webVitalsDir: string;
+  logger: Logger;
+}
+
+/**
+ * 运行用户流程脚本并保存流程报告和每个步骤的Web Vitals
+ */
+export async function runUserFlow(flowPath: string, options: FlowRunOptions): Promise<FlowRunResult> {
+  const { cdpUrl, device, flags, outputDir, webVitalsDir, logger } = options;
+  const flow = loadScriptModule<FlowDefinition>(flowPath);
+  validateFlow(flow, flowPath);
+  
+  logger.subtitle(`用户流程: ${flow.name} (${flow.steps.length} 个步骤)`);
+  
+  // Lighthouse的用户流程基于Puppeteer页面，Playwright连接同一个标签页执行用户操作
+  const puppeteerBrowser = await puppeteer.connect({
+    browserURL: cdpUrl,
+    defaultViewport: null
+  });
+  const playwrightBrowser = await chromium.connectOverCDP(cdpUrl);
+  
+  try {
+    const puppeteerPage = await puppeteerBrowser.newPage();
+    const page = await findPlaywrightPage(puppeteerPage, playwrightBrowser);
+    
+    const { startFlow } = await import('lighthouse');
+    const userFlow = await startFlow(puppeteerPage as any, { name: flow.name, flags, config: loadLighthouseConfig(flags) });
+    
+    for (const [index, step] of flow.steps.entries()) {
+      logger.info(`[${index + 1}/${flow.steps.length}] ${getStepTypeName(step.type)}: ${step.name}`);
+      
+      switch (step.type) {
+        case 'navigation':
+          if (step.url) {
+            await userFlow.navigate(step.url, { name: step.name });
+          } else {
+            // 由用户交互触发的导航
+            await userFlow.startNavigation({ name: step.name });
+            await step.action!(page);
+            await userFlow.endNavigation();
+          }
+          break;
+        case 'timespan':
+          await userFlow.startTimespan({ name: step.name });
+          await step.action!(page);
+          await userFlow.endTimespan();
+          break;
+        case 'snapshot':
+          if (step.action) {
+            await step.action(page);
+          }
+          await userFlow.snapshot({ name: step.name });
+          break;
+      }
+    }
+    
+    const flowResult = await userFlow.createFlowResult();
+    const timestamp = new Date().toISOString().replace(/:/g, '-');
+    const fileName = `user-flow-${slugify(flow.name)}-${timestamp}`;
+    
+    // 保存Lighthouse流程报告
+    const reportPath = path.join(outputDir, `${fileName}.html`);
+    await fs.writeFile(reportPath, await userFlow.generateReport());
+    
+    // 提取每个步骤的得分和Web Vitals指标
+    const steps: FlowStepResult[] = flowResult.steps.map((stepResult, index) => {
+      const scores: Record<string, number> = {};
+      for (const [category, result] of Object.entries(stepResult.lhr.categories)) {
+        if (result.score !== null) {
+          scores[category] = result.score * 100;
+        }
+      }
+      
+      return {
+        name: stepResult.name,
+        type: flow.steps[index].type,
+        scores,
+        metrics: extractWebVitals(stepResult.lhr)
+      };
+    });
+    
+    const result: FlowRunResult = {
+      name: flow.name,
+      device,
+      timestamp: new Date().toISOString(),
+      steps,
+      reportPath,
+      webVitalsPath: path.join(webVitalsDir, `${fileName}.json`)
+    };
+    
+    // 保存各步骤的Web Vitals数据
+    const { webVitalsPath } = result;
+    await fs.writeJSON(webVitalsPath, {
+      name: result.name,
+      device: result.device,
+      timestamp: result.timestamp,
+      steps
+    }, { spaces: 2 });
+    
+    logFlowSteps(steps, logger);
+    logger.success(`用户流程报告已保存至: ${reportPath}`);
+    logger.info(`各步骤Web Vitals数据已保存至: ${webVitalsPath}`);
+    
+    return result;
+  } finally {
+    // 仅断开连接，Chrome由调用方负责关闭
+    await playwrightBrowser.close();
+    await puppeteerBrowser.disconnect();
+  }
+}
+
+/**
+ * 检查用户流程定义是否有效
+ */
+function validateFlow(flow: FlowDefinition, flowPath: string): void {
+  if (!flow || !Array.isArray(flow.steps) || flow.steps.length === 0) {
+    throw new Error(`用户流程脚本 ${flowPath} 必须默认导出包含 steps 的流程定义`);
+  }
+  
+  for (const step of flow.steps) {
+    if (!['navigation', 'timespan', 'snapshot'].includes(step.type)) {
+      throw new Error(`步骤 "${step.name}" 的类型无效: ${step.type}`);
+    }
+    if (step.type === 'navigation' && !step.url && !step.action) {
+      throw new Error(`navigation步骤 "${step.name}" 需要指定 url 或 action`);
+    }
+    if (step.type === 'timespan' && !step.action) {
+      throw new Error(`timespan步骤 "${step.name}" 需要指定 action`);
+    }
+  }
+  
+  flow.name = flow.name || path.basename(flowPath, path.extname(flowPath));
+}
+
+/**
+ * 在Playwright中找到与Puppeteer页面对应的标签页
+ * 先将Puppeteer页面导航到带有唯一标记的空白页，再按URL匹配
+ */
+async function findPlaywrightPage(puppeteerPage: { goto(url: string): Promise<unknown> }, browser: Browser): Promise<Page> {
+  const marker = `about:blank#lighthouse-flow-${Date.now()}`;
+  await puppeteerPage.goto(marker);
+  
+  // Playwright可能需要一点时间才能感知到新标签页
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const pages = browser.contexts().flatMap(context => context.pages());
+    const page = pages.find(candidate => candidate.url() === marker);
+    if (page) return page;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  
+  throw new Error('无法在Playwright中找到用户流程使用的标签页');
+}
+
+/**
+ * 输出每个步骤的得分和Web Vitals指标
+ */
+function logFlowSteps(steps: FlowStepResult[], logger: Logger): void {
+  for (const step of steps) {
+    logger.group(`${getStepTypeName(step.type)}: ${step.name}`, () => {
+      for (const [category, score] of Object.entries(step.scores)) {
+        logger.info(`${category}: ${formatScore(score)}`);
+      }
+      for (const [key, value] of Object.entries(step.metrics)) {
+        if (value !== null) {
+          logger.info(formatWebVital(key, value, key === 'CLS' ? '' : 'ms'));
+        }
+      }
+    });
+  }
+}
+
+/**
+ * 获取步骤类型的中文显示
+ */
+function getStepTypeName(type: FlowStepType): string {
+  const typeNames: Record<FlowStepType, string> = {
+    navigation: '导航',
+    timespan: '时间段',
+    snapshot: '快照'
+  };
+  return typeNames[type];
+}
+
+/**
+ * 将流程名称转换为可用于文件名的标识
+ */
+function slugify(name: string): string {
+  return name.replace(/[^a-zA-Z0-9一-龥]+/g, '-').replace(/^-+|-+$/g, '') || 'flow';
+}
@@ -3,6 +3,9 @@
  * 用于收集和分析关键性能指标
  */
 
+import { DeviceProfile } from './devices';
+import { RequestSettings } from './requestSettings';
+
 export interface WebVitalsMetrics {
   FCP: number | null; // First Contentful Paint
   LCP: number | null; // Largest Contentful Paint
@@ -17,7 +20,10 @@ export interface WebVitalsResult {
   url: string;
   metrics: WebVitalsMetrics;
   timestamp: string;
-  device: string;
+  device: string; // 设备名称
+  deviceProfile?: DeviceProfile; // 测试使用的视口、像素比和User-Agent
+  throttling?: string; // 节流预设名称
+  requestSettings?: RequestSettings; // 测试使用的HTTP头（认证信息已隐藏）、Cookie和屏蔽的URL模式
 }
 
 /**